@@ -0,0 +1,31 @@
+import prisma from '@/lib/prisma';
+import { encryptToken, isEncryptedToken } from '@/lib/token-crypto';
+
+// One-off migration: encrypts access tokens that were stored in plaintext before token
+// encryption was introduced. Safe to re-run; already-encrypted rows are skipped.
+//   npm run tokens:encrypt
+
+async function main() {
+  const stores = await prisma.store.findMany({ select: { id: true, shop: true, accessToken: true } });
+  let encrypted = 0;
+
+  for (const store of stores) {
+    if (isEncryptedToken(store.accessToken)) continue;
+    // Guard on the old value so a token refreshed by a concurrent reconnect isn't overwritten
+    const { count } = await prisma.store.updateMany({
+      where: { id: store.id, accessToken: store.accessToken },
+      data: { accessToken: encryptToken(store.accessToken) },
+    });
+    encrypted += count;
+    console.log(`[TOKENS] ${count ? 'Encrypted' : 'Skipped (changed concurrently)'} token for ${store.shop}`);
+  }
+
+  console.log(`[TOKENS] Encrypted ${encrypted} of ${stores.length} store tokens.`);
+}
+
+main()
+  .catch((error) => {
+    console.error('[TOKENS] Encryption failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
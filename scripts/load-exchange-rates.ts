@@ -0,0 +1,76 @@
+import fs from 'fs';
+import path from 'path';
+import prisma from '@/lib/prisma';
+
+// Loads exchange rates from a local file into exchange_rates; re-loading a file updates its rates.
+//   npm run fx:load -- rates.csv
+// Accepted formats (1 base = rate quote, dates as YYYY-MM-DD):
+//   CSV   header `date,base,quote,rate`, one pair per line
+//   JSON  an array of { date, base, quote, rate }, or of { date, base, rates: { EUR: 0.92, ... } }
+//         (a single object of the latter shape works too)
+
+type RateRow = { date: string; base: string; quote: string; rate: number };
+type RateTable = { date: string; base: string; rates: Record<string, number | string> };
+
+function parseCsv(text: string): RateRow[] {
+  const [header, ...lines] = text.split(/\r?\n/).filter((line) => line.trim() !== '');
+  const columns = header.split(',').map((c) => c.trim().toLowerCase());
+  const index = (name: string) => {
+    const i = columns.indexOf(name);
+    if (i === -1) throw new Error(`CSV header is missing the "${name}" column.`);
+    return i;
+  };
+  const [date, base, quote, rate] = ['date', 'base', 'quote', 'rate'].map(index);
+
+  return lines.map((line) => {
+    const cells = line.split(',').map((c) => c.trim());
+    return { date: cells[date], base: cells[base], quote: cells[quote], rate: Number(cells[rate]) };
+  });
+}
+
+function parseJson(text: string): RateRow[] {
+  const parsed = JSON.parse(text) as RateRow | RateTable | (RateRow | RateTable)[];
+  return (Array.isArray(parsed) ? parsed : [parsed]).flatMap((entry) =>
+    'rates' in entry
+      ? Object.entries(entry.rates).map(([quote, rate]) => ({ date: entry.date, base: entry.base, quote, rate: Number(rate) }))
+      : [{ ...entry, rate: Number(entry.rate) }]
+  );
+}
+
+function validate(row: RateRow, line: number) {
+  const base = String(row.base ?? '').toUpperCase();
+  const quote = String(row.quote ?? '').toUpperCase();
+  const rateDate = new Date(`${row.date}T00:00:00Z`);
+  if (!/^[A-Z]{3}$/.test(base) || !/^[A-Z]{3}$/.test(quote)) throw new Error(`Entry ${line}: invalid currency code.`);
+  if (Number.isNaN(rateDate.getTime())) throw new Error(`Entry ${line}: invalid date "${row.date}".`);
+  if (!(row.rate > 0)) throw new Error(`Entry ${line}: rate must be a positive number.`);
+  return { baseCurrency: base, quoteCurrency: quote, rateDate, rate: row.rate };
+}
+
+async function main() {
+  const file = process.argv[2];
+  if (!file) throw new Error('Usage: npm run fx:load -- <rates.csv|rates.json>');
+
+  const text = fs.readFileSync(file, 'utf8');
+  const rows = (path.extname(file).toLowerCase() === '.json' ? parseJson(text) : parseCsv(text)).map((row, i) =>
+    validate(row, i + 1)
+  );
+  const source = path.basename(file);
+
+  for (const { baseCurrency, quoteCurrency, rateDate, rate } of rows) {
+    await prisma.exchangeRate.upsert({
+      where: { baseCurrency_quoteCurrency_rateDate: { baseCurrency, quoteCurrency, rateDate } },
+      update: { rate, source },
+      create: { baseCurrency, quoteCurrency, rateDate, rate, source },
+    });
+  }
+
+  console.log(`[FX] Loaded ${rows.length} exchange rates from ${source}.`);
+}
+
+main()
+  .catch((error) => {
+    console.error('[FX] Loading exchange rates failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
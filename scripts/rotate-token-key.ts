@@ -0,0 +1,35 @@
+import prisma from '@/lib/prisma';
+import { decryptToken, encryptToken, getActiveKeyId, getTokenKeyId } from '@/lib/token-crypto';
+
+// Re-encrypts every access token under the active key (TOKEN_ENCRYPTION_KEY_ID). To rotate:
+//   1. add the new key to TOKEN_ENCRYPTION_KEYS, keeping the old one, and point
+//      TOKEN_ENCRYPTION_KEY_ID at the new key id
+//   2. npm run tokens:rotate
+//   3. remove the old key from TOKEN_ENCRYPTION_KEYS
+// Plaintext tokens are encrypted as well, so this also covers `tokens:encrypt`.
+
+async function main() {
+  const activeKeyId = getActiveKeyId();
+  const stores = await prisma.store.findMany({ select: { id: true, shop: true, accessToken: true } });
+  let rotated = 0;
+
+  for (const store of stores) {
+    if (getTokenKeyId(store.accessToken) === activeKeyId) continue;
+    const { count } = await prisma.store.updateMany({
+      where: { id: store.id, accessToken: store.accessToken },
+      data: { accessToken: encryptToken(decryptToken(store.accessToken)) },
+    });
+    rotated += count;
+    const from = getTokenKeyId(store.accessToken) ?? 'plaintext';
+    console.log(`[TOKENS] ${count ? `Re-encrypted ${from} -> ${activeKeyId}` : 'Skipped (changed concurrently)'} for ${store.shop}`);
+  }
+
+  console.log(`[TOKENS] Rotated ${rotated} of ${stores.length} store tokens to key ${activeKeyId}.`);
+}
+
+main()
+  .catch((error) => {
+    console.error('[TOKENS] Rotation failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
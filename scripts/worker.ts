@@ -0,0 +1,40 @@
+import prisma from '@/lib/prisma';
+import { runWorker } from '@/lib/queue';
+import { JOB_HANDLERS } from '@/lib/jobs';
+import { scheduleDueSyncs } from '@/lib/scheduler';
+
+// Long-running queue worker for local development or a dedicated host. Only Postgres is needed.
+// It also runs the periodic-sync scheduler, standing in for the /api/cron/schedule cron.
+//   npm run worker             poll until interrupted (Ctrl+C finishes the current job first)
+//   npm run worker -- --drain  schedule due syncs, process every due job, then exit
+
+const SCHEDULE_INTERVAL_MS = 60 * 1000;
+
+function runScheduler() {
+  return scheduleDueSyncs().catch((error) => console.error('[SCHEDULER] Scheduler run failed:', error));
+}
+
+async function main() {
+  const drain = process.argv.includes('--drain');
+  const controller = new AbortController();
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.once(signal, () => {
+      console.log(`[QUEUE] ${signal} received; stopping after the current job...`);
+      controller.abort();
+    });
+  }
+
+  console.log(`[QUEUE] Worker started${drain ? ' (drain mode)' : ''}.`);
+  await runScheduler();
+  const timer = drain ? undefined : setInterval(runScheduler, SCHEDULE_INTERVAL_MS);
+  const processed = await runWorker(JOB_HANDLERS, { drain, signal: controller.signal });
+  clearInterval(timer);
+  console.log(`[QUEUE] Worker stopped after ${processed} job(s).`);
+}
+
+main()
+  .catch((error) => {
+    console.error('[QUEUE] Worker crashed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,42 @@
+import { after, NextResponse } from 'next/server';
+import prisma, { withRetry } from '@/lib/prisma';
+import { requireUser } from '@/lib/store-access';
+import { resetWebhookEventForReplay } from '@/lib/webhook-events';
+import { drainQueue, enqueueWebhookEvent } from '@/lib/jobs';
+
+export const maxDuration = 60;
+export const dynamic = 'force-dynamic';
+
+// Re-queues a failed webhook event with its stored payload
+export async function POST(_request: Request, { params }: { params: Promise<{ eventId: string }> }) {
+  try {
+    const auth = await requireUser();
+    if (!auth.ok) return auth.response;
+
+    const { eventId } = await params;
+    const event = await withRetry(
+      () =>
+        prisma.webhookEvent.findUnique({
+          where: { id: eventId },
+          select: { id: true, status: true, storeId: true, store: { select: { userId: true } } },
+        }),
+      'webhookEvent.findUnique'
+    );
+    // Events of other users' stores are reported as missing rather than forbidden
+    if (!event || event.store?.userId !== auth.userId) {
+      return NextResponse.json({ error: 'Webhook event not found.' }, { status: 404 });
+    }
+
+    if (!(await resetWebhookEventForReplay(event.id))) {
+      return NextResponse.json({ error: `Only failed events can be replayed (this one is ${event.status}).` }, { status: 409 });
+    }
+    await enqueueWebhookEvent(event.storeId, event.id);
+    after(() => drainQueue().catch((error) => console.error('[QUEUE] Worker run failed:', error)));
+
+    return NextResponse.json({ ok: true, id: event.id, status: 'pending' }, { status: 202 });
+  } catch (error) {
+    console.error('[API/webhook-events/replay] Failed:', error);
+    const message = error instanceof Error ? error.message : 'An unexpected error occurred';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import prisma, { withRetry } from '@/lib/prisma';
+import { requireUser } from '@/lib/store-access';
+import { serializeWebhookEvent } from '@/lib/webhook-events';
+
+export const dynamic = 'force-dynamic';
+
+// One webhook event with the result its handler stored, e.g. the customer data gathered for a
+// customers/data_request, which the merchant needs to fulfil the request
+export async function GET(_request: Request, { params }: { params: Promise<{ eventId: string }> }) {
+  try {
+    const auth = await requireUser();
+    if (!auth.ok) return auth.response;
+
+    const { eventId } = await params;
+    const event = await withRetry(
+      () =>
+        prisma.webhookEvent.findUnique({
+          where: { id: eventId },
+          omit: { payload: true },
+          include: { store: { select: { userId: true } } },
+        }),
+      'webhookEvent.findUnique'
+    );
+    // Events of other users' stores are reported as missing rather than forbidden
+    if (!event || event.store?.userId !== auth.userId) {
+      return NextResponse.json({ error: 'Webhook event not found.' }, { status: 404 });
+    }
+
+    return NextResponse.json({ event: { ...serializeWebhookEvent(event), result: event.result } });
+  } catch (error) {
+    console.error('[API/webhook-events/event] Failed:', error);
+    const message = error instanceof Error ? error.message : 'An unexpected error occurred';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
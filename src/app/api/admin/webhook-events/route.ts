@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import prisma, { withRetry } from '@/lib/prisma';
+import { resolveStoreAccess } from '@/lib/store-access';
+import { serializeWebhookEvent } from '@/lib/webhook-events';
+
+export const dynamic = 'force-dynamic';
+
+const STATUSES = ['pending', 'processed', 'failed'];
+
+// Webhook deliveries received for a store, newest first. Defaults to failed events; pass
+// `status=all` (or pending/processed) and optionally `topic` to widen or narrow the list.
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') || 'failed';
+    const topic = searchParams.get('topic');
+    const limit = Math.min(Math.max(Number(searchParams.get('limit')) || 50, 1), 200);
+
+    if (status !== 'all' && !STATUSES.includes(status)) {
+      return NextResponse.json({ error: `status must be one of: all, ${STATUSES.join(', ')}` }, { status: 400 });
+    }
+
+    const access = await resolveStoreAccess(searchParams.get('storeId'));
+    if (!access.ok) return access.response;
+
+    const events = await withRetry(
+      () =>
+        prisma.webhookEvent.findMany({
+          where: {
+            storeId: access.store.id,
+            ...(status !== 'all' ? { status } : {}),
+            ...(topic ? { topic } : {}),
+          },
+          omit: { payload: true, result: true },
+          orderBy: { receivedAt: 'desc' },
+          take: limit,
+        }),
+      'webhookEvent.findMany'
+    );
+
+    return NextResponse.json({ events: events.map(serializeWebhookEvent) });
+  } catch (error) {
+    console.error('[API/webhook-events] Failed:', error);
+    const message = error instanceof Error ? error.message : 'An unexpected error occurred';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
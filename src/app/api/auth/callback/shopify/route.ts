@@ -1,41 +1,40 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
 import { currentUser } from '@clerk/nextjs/server';
+import { registerWebhooks } from '@/lib/webhooks';
+import { verifyOAuthHmac } from '@/lib/shopify-hmac';
+import {
+  OAUTH_STATE_COOKIE,
+  OAUTH_STATE_COOKIE_PATH,
+  connectErrorUrl,
+  getAppUrl,
+  isValidShopDomain,
+  verifyOAuthState,
+} from '@/lib/shopify-oauth';
+import { encryptToken } from '@/lib/token-crypto';
+import { ShopifyClient } from '@/lib/shopify-client';
 
 const prisma = new PrismaClient();
 
-// Function to register webhooks with Shopify
-async function registerWebhooks(shop: string, accessToken: string) {
-  const webhookUrl = `${process.env.NEXTAUTH_URL || process.env.VERCEL_URL || 'http://localhost:3000'}/api/webhooks/orders-create`;
-  
-  try {
-    // Register orders/create webhook
-    const webhookResponse = await fetch(`https://${shop}/admin/api/2024-07/webhooks.json`, {
-      method: 'POST',
-      headers: {
-        'X-Shopify-Access-Token': accessToken,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        webhook: {
-          topic: 'orders/create',
-          address: webhookUrl,
-          format: 'json'
-        }
-      })
-    });
+// Redirects back to /connect and drops the one-time nonce so it can't be replayed
+function failConnect(error: string) {
+  const response = NextResponse.redirect(connectErrorUrl(error));
+  response.cookies.delete({ name: OAUTH_STATE_COOKIE, path: OAUTH_STATE_COOKIE_PATH });
+  return response;
+}
 
-    if (webhookResponse.ok) {
-      console.log(`Webhook registered successfully for ${shop}`);
-    } else {
-      console.error(`Failed to register webhook for ${shop}:`, await webhookResponse.text());
-    }
+// Shop-level settings we keep on Store; failures are non-fatal so a connect never fails on them
+async function fetchShopDetails(shop: string, accessToken: string) {
+  try {
+    const details = await new ShopifyClient(shop, accessToken).getShop();
+    return { currency: details.currency ?? undefined, timezone: details.iana_timezone ?? undefined };
   } catch (error) {
-    console.error(`Error registering webhook for ${shop}:`, error);
+    console.error(`Error fetching shop details for ${shop}:`, error);
+    return {};
   }
 }
 
-export async function GET(request: Request) {
+export async function GET(request: NextRequest) {
   try {
     // 1. Get the current user from Clerk
     const user = await currentUser();
@@ -43,7 +42,7 @@ export async function GET(request: Request) {
     // 2. Ensure a user is logged into our app before allowing them to connect a store.
     if (!user?.id) {
       console.error('CRITICAL: User not authenticated during Shopify callback.');
-      return NextResponse.redirect(`${process.env.NEXTAUTH_URL || process.env.VERCEL_URL || 'http://localhost:3000'}/login?error=unauthenticated`);
+      return NextResponse.redirect(`${getAppUrl()}/login?error=unauthenticated`);
     }
     const userId = user.id;
 
@@ -51,13 +50,37 @@ export async function GET(request: Request) {
     const { searchParams } = new URL(request.url);
     const shop = searchParams.get('shop');
     const code = searchParams.get('code');
-    // For production, you should also validate the 'state' parameter against a stored value.
+    const state = searchParams.get('state');
 
-    if (!shop || !code) {
-      return NextResponse.redirect(`${process.env.NEXTAUTH_URL || process.env.VERCEL_URL || 'http://localhost:3000'}/connect?error=missing_params`);
+    if (!shop || !code || !state) {
+      return failConnect('missing_params');
     }
 
-    // 4. Exchange the temporary authorization code for a permanent access token.
+    // 4. Validate the request really came from Shopify for a Shopify-hosted shop, and that
+    // it answers the install we initiated for this shop (nonce set by /api/auth/shopify, shop
+    // signed into the state).
+    if (!isValidShopDomain(shop)) {
+      return failConnect('invalid_shop');
+    }
+    if (!verifyOAuthHmac(searchParams)) {
+      console.error(`OAuth callback HMAC verification failed for ${shop}`);
+      return failConnect('invalid_hmac');
+    }
+    const expectedState = request.cookies.get(OAUTH_STATE_COOKIE)?.value;
+    if (!expectedState || !verifyOAuthState(state, expectedState, shop)) {
+      console.error(`OAuth callback state mismatch for ${shop}`);
+      return failConnect('invalid_state');
+    }
+
+    // A shop belongs to one user; reconnecting from another account must not take over its data.
+    // Checked before the token exchange so the code is never redeemed for the wrong user.
+    const existing = await prisma.store.findUnique({ where: { shop }, select: { userId: true } });
+    if (existing && existing.userId !== userId) {
+      console.error(`Refusing to connect ${shop} for user ${userId}: it belongs to another user`);
+      return failConnect('store_already_connected');
+    }
+
+    // 5. Exchange the temporary authorization code for a permanent access token.
     const tokenResponse = await fetch(`https://${shop}/admin/oauth/access_token`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
@@ -74,30 +97,34 @@ export async function GET(request: Request) {
 
     const { access_token } = await tokenResponse.json();
 
-    // 5. Use `upsert` to create a new store or update an existing one.
-    // This correctly links the store to the currently logged-in user.
+    const details = await fetchShopDetails(shop, access_token);
+
+    // 6. Use `upsert` to create a new store or refresh the token of the user's existing one.
     await prisma.store.upsert({
         where: { shop }, // Find the store by its unique shop domain.
-        update: { accessToken: access_token, userId: userId }, // If it exists, update its token and owner.
+        update: { accessToken: encryptToken(access_token), ...details }, // Ownership never changes here.
         create: {
             shop: shop,
-            accessToken: access_token,
+            accessToken: encryptToken(access_token),
             userId: userId, // Link to the logged-in user.
+            ...details,
         }
     });
 
     console.log(`Store '${shop}' connected successfully for user ID: ${userId}`);
     
-    // 6. Register webhooks with Shopify
+    // 7. Register webhooks with Shopify
     await registerWebhooks(shop, access_token);
 
-    // 7. Redirect to the dashboard upon success.
-    return NextResponse.redirect(`${process.env.NEXTAUTH_URL || process.env.VERCEL_URL || 'http://localhost:3000'}/dashboard?connected=true`);
+    // 8. Redirect to the dashboard upon success.
+    const response = NextResponse.redirect(`${getAppUrl()}/dashboard?connected=true`);
+    response.cookies.delete({ name: OAUTH_STATE_COOKIE, path: OAUTH_STATE_COOKIE_PATH });
+    return response;
 
   } catch (error) {
     console.error('OAuth callback error:', error);
     const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
-    return NextResponse.redirect(`${process.env.NEXTAUTH_URL || process.env.VERCEL_URL || 'http://localhost:3000'}/connect?error=${encodeURIComponent(errorMessage)}`);
+    return failConnect(errorMessage);
   }
 }
 
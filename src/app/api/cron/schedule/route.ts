@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { verifyCronRequest } from '@/lib/internal-auth';
+import { drainQueue } from '@/lib/jobs';
+import { scheduleDueSyncs } from '@/lib/scheduler';
+
+export const maxDuration = 60;
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// Queues incremental syncs for every store whose interval has elapsed, then drains the job queue
+// for the rest of the invocation. This lets a single cron drive hosted deployments on plans that
+// limit how many crons run and how often; /api/cron/worker only drains the queue.
+export async function GET(request: Request) {
+  const startedAt = Date.now();
+  if (!verifyCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const runs = await scheduleDueSyncs();
+    const processed = await drainQueue(startedAt);
+    return NextResponse.json({ ok: true, runs, processed });
+  } catch (error) {
+    console.error('[SCHEDULER] Scheduler run failed:', error);
+    const message = error instanceof Error ? error.message : 'An unexpected error occurred';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { verifyCronRequest } from '@/lib/internal-auth';
+import { drainQueue } from '@/lib/jobs';
+
+export const maxDuration = 60;
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// Drains the job queue for hosted deployments without a long-running worker; meant to be hit by
+// a cron (Vercel sends `Authorization: Bearer $CRON_SECRET`). Locally, run `npm run worker` instead.
+export async function GET(request: Request) {
+  if (!verifyCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const processed = await drainQueue();
+    return NextResponse.json({ ok: true, processed });
+  } catch (error) {
+    console.error('[QUEUE] Worker run failed:', error);
+    const message = error instanceof Error ? error.message : 'An unexpected error occurred';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  resolveCustomerAccess: vi.fn(),
+  findCustomer: vi.fn(),
+}));
+
+vi.mock('@/lib/store-access', () => ({ resolveCustomerAccess: mocks.resolveCustomerAccess }));
+vi.mock('@/lib/prisma', () => ({ default: { customer: { findFirst: mocks.findCustomer } } }));
+
+import { GET } from './route';
+
+function get(customerId: string, query = '') {
+  return GET(new NextRequest(`https://example.com/api/customers/${customerId}${query}`), {
+    params: Promise.resolve({ customerId }),
+  });
+}
+
+afterEach(() => {
+  vi.resetAllMocks();
+});
+
+describe('GET /api/customers/[customerId]', () => {
+  it('returns 401 without looking the customer up when signed out', async () => {
+    mocks.resolveCustomerAccess.mockResolvedValue({
+      ok: false,
+      response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }),
+    });
+    const res = await get('cust-1');
+    expect(res.status).toBe(401);
+    expect(mocks.findCustomer).not.toHaveBeenCalled();
+  });
+
+  it('returns the access 404 for customers of other users or stores', async () => {
+    mocks.resolveCustomerAccess.mockResolvedValue({
+      ok: false,
+      response: NextResponse.json({ error: 'Customer not found' }, { status: 404 }),
+    });
+    const res = await get('cust-1', '?storeId=store-2');
+    expect(res.status).toBe(404);
+    expect(await res.json()).toEqual({ error: 'Customer not found' });
+    expect(mocks.resolveCustomerAccess).toHaveBeenCalledWith('cust-1', 'store-2');
+    expect(mocks.findCustomer).not.toHaveBeenCalled();
+  });
+});
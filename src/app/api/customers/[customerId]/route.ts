@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { resolveCustomerAccess } from '@/lib/store-access';
+import { resolveRevenueMode } from '@/lib/revenue';
+import { resolveDayRange, resolveTimeZone } from '@/lib/timezone';
+import { exchangeRateErrorResponse, loadCurrencyConverter, resolveReportingCurrency } from '@/lib/fx';
+import {
+  customerMetricsSql,
+  customerOrderHistory,
+  serializeCustomerMetrics,
+  serializeCustomerProfile,
+  type CustomerMetricsRow,
+} from '@/lib/customers';
+
+export const dynamic = 'force-dynamic';
+
+// One customer's profile, lifetime metrics and order history. The metrics always cover every
+// order; `startDate`/`endDate` only narrow the order history.
+export async function GET(request: NextRequest, { params }: { params: Promise<{ customerId: string }> }) {
+  try {
+    const { customerId } = await params;
+    const { searchParams } = new URL(request.url);
+    // Signs the user in before anything is looked up; missing and other users' customers both 404
+    const access = await resolveCustomerAccess(customerId, searchParams.get('storeId'));
+    if (!access.ok) return access.response;
+
+    const startDate = searchParams.get('startDate');
+    const endDate = searchParams.get('endDate');
+    if (!startDate !== !endDate) {
+      return NextResponse.json({ error: 'startDate and endDate must be given together' }, { status: 400 });
+    }
+    const revenueMode = resolveRevenueMode(searchParams);
+    if (!revenueMode.ok) return revenueMode.response;
+
+    const customer = await prisma.customer.findFirst({
+      where: { id: customerId, storeId: access.store.id },
+      select: {
+        id: true,
+        shopifyId: true,
+        email: true,
+        firstName: true,
+        lastName: true,
+        phone: true,
+        createdAt: true,
+        storeId: true,
+      },
+    });
+    if (!customer) {
+      return NextResponse.json({ error: 'Customer not found' }, { status: 404 });
+    }
+    const currency = resolveReportingCurrency(searchParams, access.store);
+    if (!currency.ok) return currency.response;
+
+    let range: { gte: Date; lt: Date } | undefined;
+    if (startDate && endDate) {
+      const timeZone = resolveTimeZone(searchParams, access.store);
+      if (!timeZone.ok) return timeZone.response;
+      const dayRange = resolveDayRange(startDate, endDate, timeZone.timeZone);
+      if (!dayRange.ok) return dayRange.response;
+      range = dayRange.range;
+    }
+
+    const fx = await loadCurrencyConverter(currency.currency);
+    const metricsSql = await customerMetricsSql(customer.storeId, revenueMode.mode, fx, customer.id);
+    const [metricsRows, orders] = await Promise.all([
+      prisma.$queryRaw<CustomerMetricsRow[]>`
+        SELECT m."orderCount", m."totalSpent"::float8 AS "totalSpent", m."firstOrderAt", m."lastOrderAt"
+        FROM (${metricsSql}) m`,
+      customerOrderHistory(customer.id, customer.storeId, revenueMode.mode, fx, range),
+    ]);
+    const metrics = metricsRows[0] ?? { orderCount: 0, totalSpent: 0, firstOrderAt: null, lastOrderAt: null };
+
+    return NextResponse.json({
+      customer: serializeCustomerProfile(customer),
+      metrics: serializeCustomerMetrics(metrics),
+      orders,
+      revenueMode: revenueMode.mode,
+      currency: fx.currency,
+    });
+  } catch (error) {
+    console.error('[API/customers/:customerId] Failed:', error);
+    const fxError = exchangeRateErrorResponse(error);
+    if (fxError) return fxError;
+    const message = error instanceof Error ? error.message : 'An unexpected error occurred';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({ resolveStoreAccess: vi.fn() }));
+
+vi.mock('@/lib/store-access', () => ({ resolveStoreAccess: mocks.resolveStoreAccess }));
+vi.mock('@/lib/prisma', () => ({ default: {} }));
+
+import { GET } from './route';
+
+const cursor = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+function list(query: string) {
+  return GET(new NextRequest(`https://example.com/api/customers?${query}`));
+}
+
+beforeEach(() => {
+  // Stops a request that passed validation before any query runs
+  mocks.resolveStoreAccess.mockResolvedValue({
+    ok: false,
+    response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }),
+  });
+});
+
+afterEach(() => {
+  vi.resetAllMocks();
+});
+
+describe('GET /api/customers cursor validation', () => {
+  it('rejects a cursor that is not base64 JSON', async () => {
+    const res = await list('cursor=not-a-cursor');
+    expect(res.status).toBe(400);
+  });
+
+  it('rejects a cursor issued for another sort or order', async () => {
+    const other = cursor({ sortBy: 'name', order: 'asc', value: 'jane', id: 'c1' });
+    expect((await list(`cursor=${other}`)).status).toBe(400);
+    const reversed = cursor({ sortBy: 'spend', order: 'asc', value: '10', id: 'c1' });
+    expect((await list(`cursor=${reversed}`)).status).toBe(400);
+  });
+
+  it.each([
+    ['spend', 'desc', 'abc'],
+    ['spend', 'desc', '1e400'],
+    ['orders', 'desc', '1.5'],
+    ['orders', 'desc', '99999999999'],
+    ['lastOrder', 'desc', 'yesterday'],
+    ['firstOrder', 'desc', '2024-02-31 00:00:00'],
+  ])('rejects a %s cursor whose value %s does not fit the sort type', async (sortBy, order, value) => {
+    const res = await list(`sortBy=${sortBy}&cursor=${cursor({ sortBy, order, value, id: 'c1' })}`);
+    expect(res.status).toBe(400);
+    expect(mocks.resolveStoreAccess).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['spend', '1250.50'],
+    ['orders', '3'],
+    ['lastOrder', '2024-05-01 09:30:00.123'],
+    ['name', 'jane doe'],
+  ])('accepts a well-formed %s cursor', async (sortBy, value) => {
+    const order = sortBy === 'name' ? 'asc' : 'desc';
+    const res = await list(`sortBy=${sortBy}&cursor=${cursor({ sortBy, order, value, id: 'c1' })}`);
+    expect(res.status).toBe(401);
+  });
+});
@@ -0,0 +1,227 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { resolveStoreAccess } from '@/lib/store-access';
+import { resolveRevenueMode } from '@/lib/revenue';
+import { resolveTimeZone, zonedDayRange } from '@/lib/timezone';
+import { exchangeRateErrorResponse, loadCurrencyConverter, resolveReportingCurrency } from '@/lib/fx';
+import {
+  customerMetricsSql,
+  serializeCustomerMetrics,
+  serializeCustomerProfile,
+  type CustomerRow,
+} from '@/lib/customers';
+
+export const dynamic = 'force-dynamic';
+
+// Sort keys over the customers table (c) joined to its metrics (m). Expressions are never null so
+// they can key the cursor; customers without orders sort as spending 0 with their orders at the epoch.
+const SORTS = {
+  spend: { expr: Prisma.sql`COALESCE(m."totalSpent", 0)`, type: 'numeric', order: 'desc' },
+  orders: { expr: Prisma.sql`COALESCE(m."orderCount", 0)`, type: 'int', order: 'desc' },
+  name: {
+    expr: Prisma.sql`LOWER(CONCAT_WS(' ', c."firstName", c."lastName"))`,
+    type: 'text',
+    order: 'asc',
+  },
+  email: { expr: Prisma.sql`LOWER(COALESCE(c.email, ''))`, type: 'text', order: 'asc' },
+  firstOrder: { expr: Prisma.sql`COALESCE(m."firstOrderAt", 'epoch'::timestamp)`, type: 'timestamp', order: 'desc' },
+  lastOrder: { expr: Prisma.sql`COALESCE(m."lastOrderAt", 'epoch'::timestamp)`, type: 'timestamp', order: 'desc' },
+} as const;
+type SortKey = keyof typeof SORTS;
+const SORT_KEYS = Object.keys(SORTS) as SortKey[];
+type SortOrder = 'asc' | 'desc';
+
+// Opaque position after the last customer of a page: its sort value (as Postgres text) and id
+type Cursor = { sortBy: SortKey; order: SortOrder; value: string; id: string };
+
+function encodeCursor(cursor: Cursor) {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+// Decoded but not yet checked against the request
+type UntrustedCursor = Pick<Cursor, 'value' | 'id'> & { sortBy?: unknown; order?: unknown };
+
+function decodeCursor(raw: string): UntrustedCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+    return typeof cursor?.value === 'string' && typeof cursor?.id === 'string' ? cursor : null;
+  } catch {
+    return null;
+  }
+}
+
+const INT_MAX = 2147483647;
+// Postgres renders timestamps as text like `2024-05-01 09:30:00.123`
+const TIMESTAMP_PATTERN = /^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2}):(\d{2})(\.\d{1,6})?$/;
+
+// Whether a cursor value casts to the sort's SQL type, so a tampered cursor is a 400, not a 500
+function isValidSortValue(value: string, type: (typeof SORTS)[SortKey]['type']) {
+  switch (type) {
+    case 'numeric':
+      return /^-?\d+(\.\d+)?$/.test(value);
+    case 'int':
+      return /^-?\d+$/.test(value) && Math.abs(Number(value)) <= INT_MAX;
+    case 'timestamp': {
+      const match = TIMESTAMP_PATTERN.exec(value);
+      if (!match) return false;
+      const [year, month, day, hour, minute, second] = match.slice(1, 7).map(Number);
+      const date = new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+      return (
+        date.getUTCFullYear() === year &&
+        date.getUTCMonth() === month - 1 &&
+        date.getUTCDate() === day &&
+        date.getUTCHours() === hour &&
+        date.getUTCMinutes() === minute &&
+        date.getUTCSeconds() === second
+      );
+    }
+    case 'text':
+      return true;
+  }
+}
+
+function badRequest(error: string) {
+  return NextResponse.json({ error }, { status: 400 });
+}
+
+type CursorParam = { ok: true; cursor: Cursor | null } | { ok: false; response: NextResponse };
+
+// Cursors come back from the client, so one is only used if it was issued for this sort and order
+// and its value casts to the sort's type
+function resolveCursor(raw: string | null, sortBy: SortKey, order: SortOrder): CursorParam {
+  if (!raw) return { ok: true, cursor: null };
+  const cursor = decodeCursor(raw);
+  if (!cursor) return { ok: false, response: badRequest('cursor is invalid') };
+  if (cursor.sortBy !== sortBy || cursor.order !== order) {
+    return { ok: false, response: badRequest('cursor was issued for a different sortBy or order') };
+  }
+  if (!isValidSortValue(cursor.value, SORTS[sortBy].type)) {
+    return { ok: false, response: badRequest('cursor is invalid') };
+  }
+  return { ok: true, cursor: { sortBy, order, value: cursor.value, id: cursor.id } };
+}
+
+type FiltersParam = { ok: true; conditions: Prisma.Sql[] } | { ok: false; response: NextResponse };
+
+// Search and filter params as SQL conditions. Spend is in the reporting currency; order dates are
+// YYYY-MM-DD in the store's timezone, inclusive.
+function resolveFilters(searchParams: URLSearchParams, timeZone: string): FiltersParam {
+  const conditions: Prisma.Sql[] = [];
+
+  const q = searchParams.get('q')?.trim();
+  if (q) {
+    const pattern = `%${q.replace(/[\\%_]/g, '\\$&')}%`;
+    conditions.push(
+      Prisma.sql`(c.email ILIKE ${pattern} OR CONCAT_WS(' ', c."firstName", c."lastName") ILIKE ${pattern})`
+    );
+  }
+
+  const ranges = [
+    ['minOrders', Prisma.sql`COALESCE(m."orderCount", 0) >=`],
+    ['maxOrders', Prisma.sql`COALESCE(m."orderCount", 0) <=`],
+    ['minSpend', Prisma.sql`COALESCE(m."totalSpent", 0) >=`],
+    ['maxSpend', Prisma.sql`COALESCE(m."totalSpent", 0) <=`],
+  ] as const;
+  for (const [name, comparison] of ranges) {
+    const raw = searchParams.get(name);
+    if (!raw) continue;
+    const value = Number(raw);
+    const valid = name.endsWith('Orders') ? Number.isInteger(value) && value >= 0 : Number.isFinite(value);
+    if (!valid) {
+      const kind = name.endsWith('Orders') ? 'a whole number of orders' : 'an amount';
+      return { ok: false, response: badRequest(`${name} must be ${kind}`) };
+    }
+    conditions.push(Prisma.sql`${comparison} ${value}::numeric`);
+  }
+
+  const dates = [
+    ['firstOrderFrom', Prisma.sql`m."firstOrderAt" >=`, 'gte'],
+    ['firstOrderTo', Prisma.sql`m."firstOrderAt" <`, 'lt'],
+    ['lastOrderFrom', Prisma.sql`m."lastOrderAt" >=`, 'gte'],
+    ['lastOrderTo', Prisma.sql`m."lastOrderAt" <`, 'lt'],
+  ] as const;
+  for (const [name, comparison, bound] of dates) {
+    const raw = searchParams.get(name);
+    if (!raw) continue;
+    const day = zonedDayRange(raw, raw, timeZone);
+    if (!day) return { ok: false, response: badRequest(`${name} must be a YYYY-MM-DD date`) };
+    conditions.push(Prisma.sql`${comparison} ${day[bound]}`);
+  }
+
+  return { ok: true, conditions };
+}
+
+// Customers of a store with their lifetime metrics. Supports `q` (name/email search), order count,
+// spend and first/last order date filters, `sortBy`/`order`, and cursor pagination (`limit`,
+// `cursor` = the previous page's `nextCursor`).
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Math.max(Number(searchParams.get('limit')) || 25, 1), 100);
+    const sortBy = (searchParams.get('sortBy') || 'spend') as SortKey;
+    if (!SORT_KEYS.includes(sortBy)) return badRequest(`sortBy must be one of: ${SORT_KEYS.join(', ')}`);
+    const sort = SORTS[sortBy];
+    const order = (searchParams.get('order') || sort.order) as SortOrder;
+    if (order !== 'asc' && order !== 'desc') return badRequest('order must be asc or desc');
+
+    const cursorParam = resolveCursor(searchParams.get('cursor'), sortBy, order);
+    if (!cursorParam.ok) return cursorParam.response;
+    const { cursor } = cursorParam;
+    const revenueMode = resolveRevenueMode(searchParams);
+    if (!revenueMode.ok) return revenueMode.response;
+
+    const access = await resolveStoreAccess(searchParams.get('storeId'));
+    if (!access.ok) return access.response;
+    const storeId = access.store.id;
+    const currency = resolveReportingCurrency(searchParams, access.store);
+    if (!currency.ok) return currency.response;
+    const timeZone = resolveTimeZone(searchParams, access.store);
+    if (!timeZone.ok) return timeZone.response;
+    const filters = resolveFilters(searchParams, timeZone.timeZone);
+    if (!filters.ok) return filters.response;
+
+    const conditions = [Prisma.sql`c."storeId" = ${storeId}`, ...filters.conditions];
+    const direction = Prisma.raw(order === 'asc' ? 'ASC' : 'DESC');
+    if (cursor) {
+      const after = Prisma.raw(order === 'asc' ? '>' : '<');
+      conditions.push(
+        Prisma.sql`(${sort.expr}, c.id) ${after} (${cursor.value}::${Prisma.raw(sort.type)}, ${cursor.id})`
+      );
+    }
+
+    const fx = await loadCurrencyConverter(currency.currency);
+    const metrics = await customerMetricsSql(storeId, revenueMode.mode, fx);
+    const rows = await prisma.$queryRaw<(CustomerRow & { sortValue: string })[]>`
+      WITH metrics AS (${metrics})
+      SELECT c.id, c."shopifyId", c.email, c."firstName", c."lastName", c.phone, c."createdAt",
+             COALESCE(m."orderCount", 0) AS "orderCount",
+             COALESCE(m."totalSpent", 0)::float8 AS "totalSpent",
+             m."firstOrderAt",
+             m."lastOrderAt",
+             (${sort.expr})::text AS "sortValue"
+      FROM customers c
+      LEFT JOIN metrics m ON m."customerId" = c.id
+      WHERE ${Prisma.join(conditions, ' AND ')}
+      ORDER BY ${sort.expr} ${direction}, c.id ${direction}
+      LIMIT ${limit + 1}`;
+
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+    const nextCursor =
+      rows.length > limit ? encodeCursor({ sortBy, order, value: last.sortValue, id: last.id }) : null;
+
+    return NextResponse.json({
+      customers: page.map((row) => ({ ...serializeCustomerProfile(row), ...serializeCustomerMetrics(row) })),
+      nextCursor,
+      revenueMode: revenueMode.mode,
+      currency: fx.currency,
+    });
+  } catch (error) {
+    console.error('[API/customers] Failed to list customers:', error);
+    const fxError = exchangeRateErrorResponse(error);
+    if (fxError) return fxError;
+    const message = error instanceof Error ? error.message : 'An unexpected error occurred';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,5 +1,58 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
+import { Prisma } from '@prisma/client';
+import { resolveStoreAccess } from '@/lib/store-access';
+import { orderRevenue, resolveRevenueMode, revenueOrderSql, type RevenueMode } from '@/lib/revenue';
+import { resolveDayRange, resolveTimeZone } from '@/lib/timezone';
+import { bucketKey, bucketKeys, bucketSql, resolveTimeSeries, type Granularity } from '@/lib/time-series';
+import { comparisonPeriod, percentChange, resolveCompare } from '@/lib/comparison';
+import {
+  exchangeRateErrorResponse,
+  loadCurrencyConverter,
+  resolveReportingCurrency,
+  type CurrencyConverter,
+} from '@/lib/fx';
+
+type BucketRevenue = { sum: number; count: number };
+
+// Revenue and order count per bucket. SQL sums per bucket and currency; currencies are
+// converted and combined here.
+async function revenueByBucket(
+  storeId: string,
+  range: { gte: Date; lt: Date },
+  granularity: Granularity,
+  timeZone: string,
+  mode: RevenueMode,
+  fx: CurrencyConverter
+) {
+  const rows = await prisma.$queryRaw<
+    { bucket: Date; currency: string; orders: number; totalPrice: Prisma.Decimal; totalRefunded: Prisma.Decimal }[]
+  >`
+    SELECT ${bucketSql(Prisma.sql`o."processedAt"`, granularity, timeZone)} AS bucket,
+           o.currency,
+           COUNT(*)::int AS orders,
+           SUM(o."totalPrice") AS "totalPrice",
+           SUM(o."totalRefunded") AS "totalRefunded"
+    FROM orders o
+    WHERE o."storeId" = ${storeId}
+      AND o."processedAt" >= ${range.gte} AND o."processedAt" < ${range.lt}
+      AND ${revenueOrderSql(mode)}
+    GROUP BY 1, 2`;
+
+  const dateMap = new Map<string, BucketRevenue>();
+  for (const row of rows) {
+    const key = bucketKey(row.bucket, granularity);
+    const current = dateMap.get(key) || { sum: 0, count: 0 };
+    current.sum += fx.convert(orderRevenue(row, mode), row.currency);
+    current.count += row.orders;
+    dateMap.set(key, current);
+  }
+  return dateMap;
+}
+
+function averages(agg: BucketRevenue = { sum: 0, count: 0 }) {
+  return { avgRevenue: agg.count > 0 ? agg.sum / agg.count : 0, orderCount: agg.count };
+}
 
 export async function GET(request: NextRequest) {
   try {
@@ -11,49 +64,63 @@ export async function GET(request: NextRequest) {
     if (!startDate || !endDate) {
       return NextResponse.json({ error: 'startDate and endDate are required' }, { status: 400 });
     }
+    const revenueMode = resolveRevenueMode(searchParams);
+    if (!revenueMode.ok) return revenueMode.response;
+    const compare = resolveCompare(searchParams);
+    if (!compare.ok) return compare.response;
 
-    // Resolve storeId
-    let storeId = storeIdParam || undefined;
-    if (!storeId) {
-      const store = await prisma.store.findFirst();
-      storeId = store?.id;
-    }
-    if (!storeId) {
-      return NextResponse.json({ error: 'No store found in database.' }, { status: 404 });
-    }
+    const access = await resolveStoreAccess(storeIdParam);
+    if (!access.ok) return access.response;
+    const storeId = access.store.id;
+    const currency = resolveReportingCurrency(searchParams, access.store);
+    if (!currency.ok) return currency.response;
+    const timeZone = resolveTimeZone(searchParams, access.store);
+    if (!timeZone.ok) return timeZone.response;
+    const dayRange = resolveDayRange(startDate, endDate, timeZone.timeZone);
+    if (!dayRange.ok) return dayRange.response;
+    const { range } = dayRange;
+    const series = resolveTimeSeries(searchParams, range, timeZone.timeZone);
+    if (!series.ok) return series.response;
 
-    const orders = await prisma.order.findMany({
-      where: {
+    // Both periods convert at the same rates, so the change reflects sales rather than FX moves
+    const fx = await loadCurrencyConverter(currency.currency, range.lt);
+    const dateMap = await revenueByBucket(storeId, range, series.granularity, timeZone.timeZone, revenueMode.mode, fx);
+
+    // One entry per bucket in the range, zero-filled
+    let formatted = series.keys.map((date) => ({ date, ...averages(dateMap.get(date)), currency: fx.currency }));
+
+    // With compare, each bucket also carries the comparison period's bucket at the same position
+    if (compare.compare) {
+      const period = comparisonPeriod(startDate, endDate, compare.compare, timeZone.timeZone);
+      const previousKeys = bucketKeys(period.range, series.granularity, timeZone.timeZone) ?? [];
+      const previousMap = await revenueByBucket(
         storeId,
-        processedAt: {
-          gte: new Date(startDate),
-          lt: new Date(new Date(endDate).getTime() + 24 * 60 * 60 * 1000),
-        },
-      },
-      select: { processedAt: true, totalPrice: true },
-    });
-
-    const dateMap = new Map<string, { sum: number; count: number }>();
-    for (const order of orders) {
-      if (!order.processedAt) continue;
-      const dateStr = order.processedAt.toISOString().split('T')[0];
-      const current = dateMap.get(dateStr) || { sum: 0, count: 0 };
-      current.sum += Number(order.totalPrice || 0);
-      current.count += 1;
-      dateMap.set(dateStr, current);
+        period.range,
+        series.granularity,
+        timeZone.timeZone,
+        revenueMode.mode,
+        fx
+      );
+      formatted = formatted.map((row, i) => {
+        const previousDate = previousKeys[i];
+        if (!previousDate) return { ...row, previous: null, change: { avgRevenue: null, orderCount: null } };
+        const previous = averages(previousMap.get(previousDate));
+        return {
+          ...row,
+          previous: { date: previousDate, ...previous },
+          change: {
+            avgRevenue: percentChange(row.avgRevenue, previous.avgRevenue),
+            orderCount: percentChange(row.orderCount, previous.orderCount),
+          },
+        };
+      });
     }
 
-    const formatted = Array.from(dateMap.entries())
-      .map(([date, agg]) => ({
-        date: new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
-        avgRevenue: agg.count > 0 ? agg.sum / agg.count : 0,
-        orderCount: agg.count,
-      }))
-      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-
     return NextResponse.json(formatted);
   } catch (error) {
     console.error('[API/avg-revenue-by-date] Failed:', error);
+    const fxError = exchangeRateErrorResponse(error);
+    if (fxError) return fxError;
     const message = error instanceof Error ? error.message : 'An unexpected error occurred';
     return NextResponse.json({ error: message }, { status: 500 });
   } finally {
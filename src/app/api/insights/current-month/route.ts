@@ -1,47 +1,52 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
+import { resolveStoreAccess } from '@/lib/store-access';
+import { resolveRevenueMode, revenueOrderFilter, sumRevenueByCurrency } from '@/lib/revenue';
+import { resolveTimeZone, zonedMonthRange } from '@/lib/timezone';
+import { exchangeRateErrorResponse, loadCurrencyConverter, resolveReportingCurrency } from '@/lib/fx';
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const storeIdParam = searchParams.get('storeId');
     const now = new Date();
-    const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-    let storeId = storeIdParam || undefined;
-    if (!storeId) {
-      const store = await prisma.store.findFirst();
-      storeId = store?.id;
-    }
-    if (!storeId) {
-      return NextResponse.json({ error: 'No store found' }, { status: 404 });
-    }
+    const revenueMode = resolveRevenueMode(searchParams);
+    if (!revenueMode.ok) return revenueMode.response;
+    const access = await resolveStoreAccess(storeIdParam);
+    if (!access.ok) return access.response;
+    const storeId = access.store.id;
+    const currency = resolveReportingCurrency(searchParams, access.store);
+    if (!currency.ok) return currency.response;
+    const timeZone = resolveTimeZone(searchParams, access.store);
+    if (!timeZone.ok) return timeZone.response;
 
-    const [sumAgg, orderCount] = await Promise.all([
-      prisma.order.aggregate({
-        _sum: { totalPrice: true },
-        where: {
-          storeId,
-          processedAt: {
-            gte: startOfMonth,
-            lt: new Date(now.getFullYear(), now.getMonth() + 1, 1),
-          },
-        },
-      }),
-      prisma.order.count({
-        where: {
-          storeId,
-          processedAt: {
-            gte: startOfMonth,
-            lt: new Date(now.getFullYear(), now.getMonth() + 1, 1),
-          },
-        },
-      }),
+    // "This month" is the store's calendar month, not the server's
+    const { year, month, gte, lt } = zonedMonthRange(now, timeZone.timeZone);
+    const where = {
+      storeId,
+      processedAt: { gte, lt },
+      ...revenueOrderFilter(revenueMode.mode),
+    };
+    const [sumsByCurrency, orderCount, fx] = await Promise.all([
+      prisma.order.groupBy({ by: ['currency'], _sum: { totalPrice: true, totalRefunded: true }, where }),
+      prisma.order.count({ where }),
+      loadCurrencyConverter(currency.currency, now),
     ]);
 
-    const revenue = Number(sumAgg._sum.totalPrice || 0);
-    return NextResponse.json({ revenue, orders: orderCount, month: now.getMonth() + 1, year: now.getFullYear() });
+    const revenue = sumRevenueByCurrency(sumsByCurrency, revenueMode.mode, fx);
+    return NextResponse.json({
+      revenue,
+      orders: orderCount,
+      month,
+      year,
+      revenueMode: revenueMode.mode,
+      currency: fx.currency,
+      timezone: timeZone.timeZone,
+    });
   } catch (error) {
     console.error('[API/current-month] Failed:', error);
+    const fxError = exchangeRateErrorResponse(error);
+    if (fxError) return fxError;
     const message = error instanceof Error ? error.message : 'An unexpected error occurred';
     return NextResponse.json({ error: message }, { status: 500 });
   } finally {
@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import prisma from '@/lib/prisma';
+import { resolveCustomerAccess } from '@/lib/store-access';
+import { resolveRevenueMode } from '@/lib/revenue';
+import { resolveDayRange, resolveTimeZone } from '@/lib/timezone';
+import { exchangeRateErrorResponse, loadCurrencyConverter, resolveReportingCurrency } from '@/lib/fx';
+import { customerOrderHistory } from '@/lib/customers';
 
 export async function GET(request: NextRequest) {
   try {
@@ -7,45 +11,37 @@ export async function GET(request: NextRequest) {
     const customerId = searchParams.get('customerId');
     const startDate = searchParams.get('startDate');
     const endDate = searchParams.get('endDate');
+    const storeIdParam = searchParams.get('storeId');
 
     if (!customerId) {
       return NextResponse.json({ error: 'customerId is required' }, { status: 400 });
     }
+    const revenueMode = resolveRevenueMode(searchParams);
+    if (!revenueMode.ok) return revenueMode.response;
 
-    const where: {
-      customerId: string;
-      processedAt?: { gte: Date; lt: Date };
-    } = { customerId };
+    // The customer must belong to a store the signed-in user owns (and to storeId, if given)
+    const access = await resolveCustomerAccess(customerId, storeIdParam);
+    if (!access.ok) return access.response;
+    const currency = resolveReportingCurrency(searchParams, access.store);
+    if (!currency.ok) return currency.response;
+
+    let range: { gte: Date; lt: Date } | undefined;
     if (startDate && endDate) {
-      where.processedAt = {
-        gte: new Date(startDate),
-        lt: new Date(new Date(endDate).getTime() + 24 * 60 * 60 * 1000),
-      };
+      const timeZone = resolveTimeZone(searchParams, access.store);
+      if (!timeZone.ok) return timeZone.response;
+      const dayRange = resolveDayRange(startDate, endDate, timeZone.timeZone);
+      if (!dayRange.ok) return dayRange.response;
+      range = dayRange.range;
     }
 
-    const orders = await prisma.order.findMany({
-      where,
-      orderBy: { processedAt: 'desc' },
-      select: {
-        id: true,
-        orderNumber: true,
-        processedAt: true,
-        totalPrice: true,
-        currency: true,
-      },
-    });
-
-    const data = orders.map((o) => ({
-      id: o.id,
-      orderNumber: o.orderNumber,
-      date: o.processedAt ? o.processedAt.toISOString() : null,
-      total: Number(o.totalPrice || 0),
-      currency: o.currency,
-    }));
+    const fx = await loadCurrencyConverter(currency.currency);
+    const data = await customerOrderHistory(customerId, access.store.id, revenueMode.mode, fx, range);
 
     return NextResponse.json(data);
   } catch (error) {
     console.error('[API/customer-orders] Failed:', error);
+    const fxError = exchangeRateErrorResponse(error);
+    if (fxError) return fxError;
     const message = error instanceof Error ? error.message : 'An unexpected error occurred';
     return NextResponse.json({ error: message }, { status: 500 });
   } finally {
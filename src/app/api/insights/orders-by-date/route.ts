@@ -87,19 +87,38 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
+import { Prisma } from '@prisma/client';
+import { resolveStoreAccess } from '@/lib/store-access';
+import { resolveRevenueMode, revenueOrderSql, type RevenueMode } from '@/lib/revenue';
+import { resolveDayRange, resolveTimeZone } from '@/lib/timezone';
+import { bucketKey, bucketKeys, bucketSql, resolveTimeSeries, type Granularity } from '@/lib/time-series';
+import { comparisonPeriod, percentChange, resolveCompare } from '@/lib/comparison';
 
 // Using shared Prisma client
 
+// Order counts per bucket in SQL, using the same orders the revenue routes do
+async function countOrdersByBucket(
+  storeId: string,
+  range: { gte: Date; lt: Date },
+  granularity: Granularity,
+  timeZone: string,
+  mode: RevenueMode
+) {
+  const rows = await prisma.$queryRaw<{ bucket: Date; orders: number }[]>`
+    SELECT ${bucketSql(Prisma.sql`o."processedAt"`, granularity, timeZone)} AS bucket,
+           COUNT(*)::int AS orders
+    FROM orders o
+    WHERE o."storeId" = ${storeId}
+      AND o."processedAt" >= ${range.gte} AND o."processedAt" < ${range.lt}
+      AND ${revenueOrderSql(mode)}
+    GROUP BY 1`;
+  return new Map(rows.map((row) => [bucketKey(row.bucket, granularity), row.orders]));
+}
+
 export async function GET(request: NextRequest) {
   try {
     console.log('[API/orders-by-date] Starting request...');
     
-    // TEMPORARILY COMMENTED OUT FOR TESTING
-    // const session = await getServerSession(authOptions);
-    // if (!session?.user?.id) {
-    //   return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
-    // }
-
     // Parse parameters from the request URL
     const { searchParams } = new URL(request.url);
     const startDate = searchParams.get('startDate');
@@ -111,48 +130,50 @@ export async function GET(request: NextRequest) {
     if (!startDate || !endDate) {
       return NextResponse.json({ error: 'startDate and endDate are required' }, { status: 400 });
     }
+    const revenueMode = resolveRevenueMode(searchParams);
+    if (!revenueMode.ok) return revenueMode.response;
+    const compare = resolveCompare(searchParams);
+    if (!compare.ok) return compare.response;
     
-    // Resolve storeId if not provided
-    let storeId = storeIdParam || undefined;
-    if (!storeId) {
-      const store = await prisma.store.findFirst();
-      storeId = store?.id;
-    }
-    if (!storeId) {
-      return NextResponse.json({ error: 'No store found in database.' }, { status: 404 });
-    }
-
-    // Use Prisma query instead of raw SQL
-    const orders = await prisma.order.findMany({
-      where: {
+    // Resolve the requested store and check the signed-in user owns it
+    const access = await resolveStoreAccess(storeIdParam);
+    if (!access.ok) return access.response;
+    const storeId = access.store.id;
+    const timeZone = resolveTimeZone(searchParams, access.store);
+    if (!timeZone.ok) return timeZone.response;
+    const dayRange = resolveDayRange(startDate, endDate, timeZone.timeZone);
+    if (!dayRange.ok) return dayRange.response;
+    const { range } = dayRange;
+    const series = resolveTimeSeries(searchParams, range, timeZone.timeZone);
+    if (!series.ok) return series.response;
+
+    const counts = await countOrdersByBucket(storeId, range, series.granularity, timeZone.timeZone, revenueMode.mode);
+
+    // One entry per bucket in the range, zero-filled
+    let formattedData = series.keys.map((date) => ({ date, Orders: counts.get(date) ?? 0 }));
+
+    // With compare, each bucket also carries the comparison period's bucket at the same position
+    if (compare.compare) {
+      const period = comparisonPeriod(startDate, endDate, compare.compare, timeZone.timeZone);
+      const previousKeys = bucketKeys(period.range, series.granularity, timeZone.timeZone) ?? [];
+      const previousCounts = await countOrdersByBucket(
         storeId,
-        processedAt: {
-          gte: new Date(startDate),
-          lt: new Date(new Date(endDate).getTime() + 24 * 60 * 60 * 1000),
-        },
-      },
-      select: {
-        processedAt: true,
-      },
-    });
-
-    // Group orders by date
-    const dateMap = new Map<string, number>();
-    
-    orders.forEach(order => {
-      if (order.processedAt) {
-        const dateStr = order.processedAt.toISOString().split('T')[0];
-        dateMap.set(dateStr, (dateMap.get(dateStr) || 0) + 1);
-      }
-    });
-
-    // Format the data
-    const formattedData = Array.from(dateMap.entries())
-      .map(([date, count]) => ({
-        date: new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
-        Orders: count,
-      }))
-      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+        period.range,
+        series.granularity,
+        timeZone.timeZone,
+        revenueMode.mode
+      );
+      formattedData = formattedData.map((row, i) => {
+        const previousDate = previousKeys[i];
+        if (!previousDate) return { ...row, previous: null, change: { Orders: null } };
+        const previousOrders = previousCounts.get(previousDate) ?? 0;
+        return {
+          ...row,
+          previous: { date: previousDate, Orders: previousOrders },
+          change: { Orders: percentChange(row.Orders, previousOrders) },
+        };
+      });
+    }
 
     console.log('[API/orders-by-date] Formatted data length:', formattedData.length);
     return NextResponse.json(formattedData);
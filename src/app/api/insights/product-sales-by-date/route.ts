@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { Prisma } from '@prisma/client';
+import { resolveStoreAccess } from '@/lib/store-access';
+import { lineItemRevenueSql, resolveRevenueMode, revenueOrderSql } from '@/lib/revenue';
+import { resolveDayRange, resolveTimeZone } from '@/lib/timezone';
+import { bucketKey, bucketSql, resolveTimeSeries } from '@/lib/time-series';
+import { exchangeRateErrorResponse, loadCurrencyConverter, resolveReportingCurrency } from '@/lib/fx';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const startDate = searchParams.get('startDate');
+    const endDate = searchParams.get('endDate');
+    const storeIdParam = searchParams.get('storeId');
+    // Optional filters to narrow the series to a single product, vendor or product type
+    const productId = searchParams.get('productId');
+    const vendor = searchParams.get('vendor');
+    const productType = searchParams.get('productType');
+
+    if (!startDate || !endDate) {
+      return NextResponse.json({ error: 'startDate and endDate are required' }, { status: 400 });
+    }
+    const revenueMode = resolveRevenueMode(searchParams);
+    if (!revenueMode.ok) return revenueMode.response;
+
+    const access = await resolveStoreAccess(storeIdParam);
+    if (!access.ok) return access.response;
+    const storeId = access.store.id;
+    const currency = resolveReportingCurrency(searchParams, access.store);
+    if (!currency.ok) return currency.response;
+    const timeZone = resolveTimeZone(searchParams, access.store);
+    if (!timeZone.ok) return timeZone.response;
+    const dayRange = resolveDayRange(startDate, endDate, timeZone.timeZone);
+    if (!dayRange.ok) return dayRange.response;
+    const { range } = dayRange;
+
+    const series = resolveTimeSeries(searchParams, range, timeZone.timeZone);
+    if (!series.ok) return series.response;
+
+    // Every line item of the orders the revenue mode counts, with its revenue as top-products
+    // computes it (refunds allocated across the order's items). The filters apply afterwards, since
+    // allocation needs all of an order's items; items without a product count unless filtered out.
+    // Guests have no customer record; fall back to email, then to the order itself.
+    const lines = Prisma.sql`
+      SELECT o."processedAt", o.currency, i."productId", i.quantity,
+             ${lineItemRevenueSql(revenueMode.mode)} AS revenue,
+             COALESCE(o."customerId", o.email, 'order:' || o.id) AS buyer
+      FROM order_items i
+      JOIN orders o ON o.id = i."orderId"
+      WHERE o."storeId" = ${storeId}
+        AND o."processedAt" >= ${range.gte} AND o."processedAt" < ${range.lt}
+        AND ${revenueOrderSql(revenueMode.mode)}`;
+    const matchingItems = Prisma.sql`
+      FROM lines l
+      LEFT JOIN products p ON p.id = l."productId"
+      WHERE ${productId ? Prisma.sql`l."productId" = ${productId}` : Prisma.sql`TRUE`}
+        AND ${vendor ? Prisma.sql`p.vendor = ${vendor}` : Prisma.sql`TRUE`}
+        AND ${productType ? Prisma.sql`p."productType" = ${productType}` : Prisma.sql`TRUE`}`;
+    const bucket = bucketSql(Prisma.sql`l."processedAt"`, series.granularity, timeZone.timeZone);
+
+    const [sales, buyers, fx] = await Promise.all([
+      // Per currency, so revenue can be converted before buckets are combined
+      prisma.$queryRaw<{ bucket: Date; currency: string; units: number; revenue: Prisma.Decimal }[]>`
+        WITH lines AS (${lines})
+        SELECT ${bucket} AS bucket, l.currency, SUM(l.quantity)::int AS units, SUM(l.revenue) AS revenue
+        ${matchingItems}
+        GROUP BY 1, 2`,
+      prisma.$queryRaw<{ bucket: Date; buyers: number }[]>`
+        WITH lines AS (${lines})
+        SELECT ${bucket} AS bucket, COUNT(DISTINCT l.buyer)::int AS buyers
+        ${matchingItems}
+        GROUP BY 1`,
+      loadCurrencyConverter(currency.currency, range.lt),
+    ]);
+
+    const dateMap = new Map<string, { units: number; revenue: number; buyers: number }>();
+    const bucketFor = (date: Date) => {
+      const key = bucketKey(date, series.granularity);
+      const current = dateMap.get(key) || { units: 0, revenue: 0, buyers: 0 };
+      dateMap.set(key, current);
+      return current;
+    };
+    for (const row of sales) {
+      const current = bucketFor(row.bucket);
+      current.units += row.units;
+      current.revenue += fx.convert(Number(row.revenue), row.currency);
+    }
+    for (const row of buyers) bucketFor(row.bucket).buyers = row.buyers;
+
+    // One entry per bucket in the range, zero-filled
+    const formatted = series.keys.map((date) => ({
+      date,
+      ...(dateMap.get(date) || { units: 0, revenue: 0, buyers: 0 }),
+      currency: fx.currency,
+    }));
+
+    return NextResponse.json(formatted);
+  } catch (error) {
+    console.error('[API/product-sales-by-date] Failed:', error);
+    const fxError = exchangeRateErrorResponse(error);
+    if (fxError) return fxError;
+    const message = error instanceof Error ? error.message : 'An unexpected error occurred';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,79 +1,88 @@
 // FILE: /api/insights/top-customers/route.ts
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
-import { currentUser } from '@clerk/nextjs/server';
+import { resolveStoreAccess } from '@/lib/store-access';
+import {
+  orderRevenue,
+  resolveRevenueMode,
+  revenueOrderFilter,
+  topOrderIdsByRevenue,
+  type RevenueMode,
+} from '@/lib/revenue';
+import {
+  exchangeRateErrorResponse,
+  loadCurrencyConverter,
+  MissingExchangeRateError,
+  resolveReportingCurrency,
+  type CurrencyConverter,
+} from '@/lib/fx';
+import { resolveDayRange, resolveTimeZone } from '@/lib/timezone';
 
 export async function GET(request: NextRequest) {
   try {
     console.log('[API/top-customers] Starting request...');
     const { searchParams } = new URL(request.url);
     const storeIdParam = searchParams.get('storeId');
-    
-    // Get authenticated user
-    const user = await currentUser();
-    if (!user?.id) {
-      console.log('[API/top-customers] No authenticated user found');
-      // Fallback: try to get first available store if no auth
-      const store = await prisma.store.findFirst();
-      if (!store) {
-        return NextResponse.json({ 
-          error: 'No store found and no authenticated user',
-          availableStores: await getAvailableStores() 
-        }, { status: 404 });
-      }
-      
-      // Get data for first available store
-      const result = await getCombinedDataForStore(store.id);
-      return result;
+    // Optional date range; without one customers and orders are ranked over all time
+    const startDate = searchParams.get('startDate');
+    const endDate = searchParams.get('endDate');
+    const revenueMode = resolveRevenueMode(searchParams);
+    if (!revenueMode.ok) return revenueMode.response;
+    if (!startDate !== !endDate) {
+      return NextResponse.json({ error: 'startDate and endDate must be given together' }, { status: 400 });
     }
-
-    // Resolve store for authenticated user
-    let storeId = storeIdParam || undefined;
-    if (!storeId) {
-      const s = await prisma.store.findFirst({ where: { userId: user.id } });
-      storeId = s?.id;
-    }
-
-    // Fallback: if no store for user, get first available store
-    if (!storeId) {
-      console.log('[API/top-customers] No store for user, trying first available store');
-      const s = await prisma.store.findFirst();
-      storeId = s?.id;
-    }
-
-    console.log('[API/top-customers] Store resolved:', storeId || 'None');
-
-    if (!storeId) {
-      return NextResponse.json({ 
-        error: 'No store found. Please ensure stores exist in the database.',
-        availableStores: await getAvailableStores() 
-      }, { status: 404 });
+    
+    // Resolve the requested store and check the signed-in user owns it
+    const access = await resolveStoreAccess(storeIdParam);
+    if (!access.ok) return access.response;
+    const storeId = access.store.id;
+    console.log('[API/top-customers] Store resolved:', storeId);
+    const currency = resolveReportingCurrency(searchParams, access.store);
+    if (!currency.ok) return currency.response;
+    const timeZone = resolveTimeZone(searchParams, access.store);
+    if (!timeZone.ok) return timeZone.response;
+
+    let range: { gte: Date; lt: Date } | undefined;
+    if (startDate && endDate) {
+      const dayRange = resolveDayRange(startDate, endDate, timeZone.timeZone);
+      if (!dayRange.ok) return dayRange.response;
+      range = dayRange.range;
     }
 
     // Get combined data (customers and orders)
-    const result = await getCombinedDataForStore(storeId);
+    const fx = await loadCurrencyConverter(currency.currency, range?.lt);
+    const result = await getCombinedDataForStore(storeId, revenueMode.mode, fx, range);
     return result;
 
   } catch (error) {
     console.error("[API/top-customers] Failed to fetch data:", error);
+    const fxError = exchangeRateErrorResponse(error);
+    if (fxError) return fxError;
     const message = error instanceof Error ? error.message : 'An unexpected error occurred';
     return NextResponse.json({ error: message }, { status: 500 });
   }
 }
 
-async function getCombinedDataForStore(storeId: string) {
+async function getCombinedDataForStore(
+  storeId: string,
+  mode: RevenueMode,
+  fx: CurrencyConverter,
+  range?: { gte: Date; lt: Date }
+) {
   try {
     console.log('[API/top-customers] Querying combined data for store:', storeId);
     
     // Fetch top customers and top orders in parallel
     const [topCustomersData, topOrdersData] = await Promise.all([
-      getTopCustomersData(storeId),
-      getTopOrdersData(storeId)
+      getTopCustomersData(storeId, mode, fx, range),
+      getTopOrdersData(storeId, mode, fx, range)
     ]);
 
     const result = {
       topCustomers: topCustomersData,
-      topOrders: topOrdersData
+      topOrders: topOrdersData,
+      revenueMode: mode,
+      currency: fx.currency,
     };
 
     console.log('[API/top-customers] Combined result:', {
@@ -89,24 +98,36 @@ async function getCombinedDataForStore(storeId: string) {
   }
 }
 
-async function getTopCustomersData(storeId: string) {
+async function getTopCustomersData(
+  storeId: string,
+  mode: RevenueMode,
+  fx: CurrencyConverter,
+  range?: { gte: Date; lt: Date }
+) {
   try {
-    const topCustomersSpend = await prisma.order.groupBy({
-      by: ['customerId'],
+    // Spend can't be ordered in SQL once refunds are subtracted and currencies converted,
+    // so rank every customer here
+    const customerSpend = await prisma.order.groupBy({
+      by: ['customerId', 'currency'],
       where: {
         storeId: storeId,
         customerId: { not: null },
+        ...revenueOrderFilter(mode),
+        ...(range ? { processedAt: range } : {}),
       },
       _sum: {
         totalPrice: true,
+        totalRefunded: true,
       },
-      orderBy: {
-        _sum: {
-          totalPrice: 'desc',
-        },
-      },
-      take: 5,
     });
+    const spendByCustomer = new Map<string, number>();
+    for (const spend of customerSpend) {
+      const amount = fx.convert(orderRevenue(spend._sum, mode), spend.currency);
+      spendByCustomer.set(spend.customerId!, (spendByCustomer.get(spend.customerId!) || 0) + amount);
+    }
+    const topCustomersSpend = Array.from(spendByCustomer, ([customerId, totalSpend]) => ({ customerId, totalSpend }))
+      .sort((a, b) => b.totalSpend - a.totalSpend)
+      .slice(0, 5);
 
     if (topCustomersSpend.length === 0) {
       return [];
@@ -124,27 +145,34 @@ async function getTopCustomersData(storeId: string) {
         customerId: details?.id,
         name: `${details?.firstName || ''} ${details?.lastName || ''}`.trim() || 'Unknown Customer',
         email: details?.email || 'No email',
-        totalSpend: Number(spend._sum.totalPrice || 0),
+        totalSpend: spend.totalSpend,
       };
     });
 
     return result;
   } catch (error) {
+    if (error instanceof MissingExchangeRateError) throw error;
     console.error('[API/top-customers] Error getting top customers:', error);
     return [];
   }
 }
 
-async function getTopOrdersData(storeId: string) {
+async function getTopOrdersData(
+  storeId: string,
+  mode: RevenueMode,
+  fx: CurrencyConverter,
+  range?: { gte: Date; lt: Date }
+) {
   try {
+    const where = { storeId: storeId, ...revenueOrderFilter(mode), ...(range ? { processedAt: range } : {}) };
+    const ids = await topOrderIdsByRevenue(where, mode, 5, fx);
     const orders = await prisma.order.findMany({
-      where: { storeId: storeId },
-      orderBy: { totalPrice: 'desc' },
-      take: 5,
+      where: { id: { in: ids } },
       select: {
         id: true,
         orderNumber: true,
         totalPrice: true,
+        totalRefunded: true,
         currency: true,
         processedAt: true,
         customer: {
@@ -157,11 +185,12 @@ async function getTopOrdersData(storeId: string) {
       }
     });
 
+    orders.sort((a, b) => ids.indexOf(a.id) - ids.indexOf(b.id));
     const mapped = orders.map(o => ({
       id: o.id,
       orderNumber: o.orderNumber,
-      total: Number(o.totalPrice),
-      currency: o.currency,
+      total: fx.convert(orderRevenue(o, mode), o.currency),
+      currency: fx.currency,
       date: o.processedAt ? o.processedAt.toISOString() : null,
       customerName: [o.customer?.firstName, o.customer?.lastName].filter(Boolean).join(' ') || 'Guest',
       customerEmail: o.customer?.email || undefined,
@@ -169,21 +198,8 @@ async function getTopOrdersData(storeId: string) {
 
     return mapped;
   } catch (error) {
+    if (error instanceof MissingExchangeRateError) throw error;
     console.error('[API/top-customers] Error getting top orders:', error);
     return [];
   }
 }
-
-// Helper function to get available stores for error message
-async function getAvailableStores() {
-  try {
-    const stores = await prisma.store.findMany({
-      select: { id: true, shop: true },
-      take: 10 // Limit to first 10 stores
-    });
-    return stores;
-  } catch (error) {
-    console.error('Error fetching available stores:', error);
-    return [];
-  }
-}
\ No newline at end of file
@@ -1,40 +1,31 @@
-/* eslint-disable @typescript-eslint/no-unused-vars */
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
-import { currentUser } from '@clerk/nextjs/server';
+import { resolveStoreAccess } from '@/lib/store-access';
+import { orderRevenue, resolveRevenueMode, revenueOrderFilter, topOrderIdsByRevenue } from '@/lib/revenue';
+import { exchangeRateErrorResponse, loadCurrencyConverter, resolveReportingCurrency } from '@/lib/fx';
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const storeIdParam = searchParams.get('storeId');
+    const revenueMode = resolveRevenueMode(searchParams);
+    if (!revenueMode.ok) return revenueMode.response;
 
-    const user = await currentUser();
-
-    let storeId = storeIdParam || undefined;
-
-    if (!storeId) {
-      if (user?.id) {
-        const store = await prisma.store.findFirst({ where: { userId: user.id } });
-        storeId = store?.id;
-      }
-      if (!storeId) {
-        const store = await prisma.store.findFirst();
-        storeId = store?.id;
-      }
-    }
-
-    if (!storeId) {
-      return NextResponse.json({ error: 'No store found' }, { status: 404 });
-    }
+    const access = await resolveStoreAccess(storeIdParam);
+    if (!access.ok) return access.response;
+    const storeId = access.store.id;
+    const currency = resolveReportingCurrency(searchParams, access.store);
+    if (!currency.ok) return currency.response;
 
+    const fx = await loadCurrencyConverter(currency.currency);
+    const ids = await topOrderIdsByRevenue({ storeId, ...revenueOrderFilter(revenueMode.mode) }, revenueMode.mode, 5, fx);
     const orders = await prisma.order.findMany({
-      where: { storeId },
-      orderBy: { totalPrice: 'desc' },
-      take: 5,
+      where: { id: { in: ids } },
       select: {
         id: true,
         orderNumber: true,
         totalPrice: true,
+        totalRefunded: true,
         currency: true,
         processedAt: true,
         customer: {
@@ -43,11 +34,12 @@ export async function GET(request: NextRequest) {
       }
     });
 
+    orders.sort((a, b) => ids.indexOf(a.id) - ids.indexOf(b.id));
     const mapped = orders.map(o => ({
       id: o.id,
       orderNumber: o.orderNumber,
-      total: Number(o.totalPrice),
-      currency: o.currency,
+      total: fx.convert(orderRevenue(o, revenueMode.mode), o.currency),
+      currency: fx.currency,
       date: o.processedAt ? o.processedAt.toISOString() : null,
       customerName: [o.customer?.firstName, o.customer?.lastName].filter(Boolean).join(' ') || 'Guest',
       customerEmail: o.customer?.email || undefined,
@@ -56,6 +48,8 @@ export async function GET(request: NextRequest) {
     return NextResponse.json(mapped);
   } catch (error) {
     console.error('[INSIGHTS/top-orders] Error:', error);
+    const fxError = exchangeRateErrorResponse(error);
+    if (fxError) return fxError;
     const message = error instanceof Error ? error.message : 'Unexpected error';
     return NextResponse.json({ error: message }, { status: 500 });
   } finally {
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { resolveStoreAccess } from '@/lib/store-access';
+import { lineItemRevenueSql, resolveRevenueMode, revenueOrderFilter, revenueOrderSql } from '@/lib/revenue';
+import { resolveDayRange, resolveTimeZone } from '@/lib/timezone';
+import { exchangeRateErrorResponse, loadCurrencyConverter, resolveReportingCurrency } from '@/lib/fx';
+
+type SortKey = 'units' | 'revenue' | 'buyers';
+
+type Totals = { units: number; revenue: number; buyers: number };
+type ProductRow = Totals & { productId: string | null; title: string; vendor: string | null; productType: string | null };
+type GroupRow = Totals & { name: string };
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const startDate = searchParams.get('startDate');
+    const endDate = searchParams.get('endDate');
+    const storeIdParam = searchParams.get('storeId');
+    const sortParam = searchParams.get('sortBy');
+    const sortBy: SortKey = sortParam === 'units' || sortParam === 'buyers' ? sortParam : 'revenue';
+    const limit = Math.min(Math.max(Number(searchParams.get('limit')) || 5, 1), 100);
+
+    if (!startDate || !endDate) {
+      return NextResponse.json({ error: 'startDate and endDate are required' }, { status: 400 });
+    }
+    const revenueMode = resolveRevenueMode(searchParams);
+    if (!revenueMode.ok) return revenueMode.response;
+
+    const access = await resolveStoreAccess(storeIdParam);
+    if (!access.ok) return access.response;
+    const storeId = access.store.id;
+    const currency = resolveReportingCurrency(searchParams, access.store);
+    if (!currency.ok) return currency.response;
+    const timeZone = resolveTimeZone(searchParams, access.store);
+    if (!timeZone.ok) return timeZone.response;
+    const dayRange = resolveDayRange(startDate, endDate, timeZone.timeZone);
+    if (!dayRange.ok) return dayRange.response;
+    const { range } = dayRange;
+
+    const fx = await loadCurrencyConverter(currency.currency, range.lt);
+    // Conversion is linear, so each currency's rate is what one unit converts to
+    const currencies = await prisma.order.groupBy({
+      by: ['currency'],
+      where: { storeId, processedAt: range, ...revenueOrderFilter(revenueMode.mode) },
+    });
+    const rates = currencies.length
+      ? currencies.map(({ currency }) => Prisma.sql`(${currency}::text, ${fx.convert(1, currency)}::numeric)`)
+      : [Prisma.sql`(NULL::text, NULL::numeric)`];
+
+    // Every line item of the orders the revenue mode counts, with its revenue in the reporting
+    // currency and its buyer. Guests have no customer record; fall back to email, then to the order.
+    const lines = Prisma.sql`
+      SELECT i."productId", i.title, p.title AS "productTitle", p.vendor, p."productType", i.quantity,
+             (${lineItemRevenueSql(revenueMode.mode)}) * r.rate AS revenue,
+             COALESCE(o."customerId", o.email, 'order:' || o.id) AS buyer
+      FROM order_items i
+      JOIN orders o ON o.id = i."orderId"
+      JOIN (VALUES ${Prisma.join(rates)}) AS r(currency, rate) ON r.currency = o.currency
+      LEFT JOIN products p ON p.id = i."productId"
+      WHERE o."storeId" = ${storeId}
+        AND o."processedAt" >= ${range.gte} AND o."processedAt" < ${range.lt}
+        AND ${revenueOrderSql(revenueMode.mode)}`;
+    const totals = Prisma.sql`
+      SUM(quantity)::int AS units,
+      ROUND(SUM(revenue), 2)::float8 AS revenue,
+      COUNT(DISTINCT buyer)::int AS buyers`;
+    const ranking = Prisma.sql`ORDER BY ${Prisma.raw(`"${sortBy}"`)} DESC, revenue DESC`;
+    const byGroup = (column: Prisma.Sql, fallback: string) => prisma.$queryRaw<GroupRow[]>`
+      WITH lines AS (${lines})
+      SELECT COALESCE(NULLIF(${column}, ''), ${fallback}) AS name, ${totals}
+      FROM lines
+      GROUP BY 1
+      ${ranking}, name`;
+
+    const [topProducts, byVendor, byProductType] = await Promise.all([
+      // Items no longer matched to a product (deleted, or custom line items) are grouped by title
+      prisma.$queryRaw<ProductRow[]>`
+        WITH lines AS (${lines})
+        SELECT "productId", COALESCE(MAX("productTitle"), MAX(title)) AS title,
+               MAX(vendor) AS vendor, MAX("productType") AS "productType", ${totals}
+        FROM lines
+        GROUP BY "productId", CASE WHEN "productId" IS NULL THEN title END
+        ${ranking}, title
+        LIMIT ${limit}`,
+      byGroup(Prisma.sql`vendor`, 'Unknown'),
+      byGroup(Prisma.sql`"productType"`, 'Uncategorized'),
+    ]);
+
+    return NextResponse.json({
+      sortBy,
+      revenueMode: revenueMode.mode,
+      currency: fx.currency,
+      topProducts,
+      byVendor,
+      byProductType,
+    });
+  } catch (error) {
+    console.error('[API/top-products] Failed:', error);
+    const fxError = exchangeRateErrorResponse(error);
+    if (fxError) return fxError;
+    const message = error instanceof Error ? error.message : 'An unexpected error occurred';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -171,50 +171,104 @@
 // FILE 1: /api/insights/totals/route.ts
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
+import { resolveStoreAccess } from '@/lib/store-access';
+import { resolveRevenueMode, revenueOrderFilter, sumRevenueByCurrency, type RevenueMode } from '@/lib/revenue';
+import {
+  exchangeRateErrorResponse,
+  loadCurrencyConverter,
+  resolveReportingCurrency,
+  type CurrencyConverter,
+} from '@/lib/fx';
+import { resolveDayRange, resolveTimeZone } from '@/lib/timezone';
+import { comparisonPeriod, percentChange, resolveCompare } from '@/lib/comparison';
 // import { getServerSession } from 'next-auth/next';
 // import { authOptions } from '@/lib/auth';
 
 // Using shared Prisma client
 
+type Totals = { totalSpent: number; totalOrders: number; totalCustomers: number };
+
+// Totals for the store, counting only orders the revenue mode includes. Within a date range
+// the customers are those who ordered in it; without one, every customer of the store.
+async function getTotals(
+  storeId: string,
+  mode: RevenueMode,
+  fx: CurrencyConverter,
+  range?: { gte: Date; lt: Date }
+): Promise<Totals> {
+  const orderWhere = { storeId, ...revenueOrderFilter(mode), ...(range ? { processedAt: range } : {}) };
+  const [revenueByCurrency, totalOrders, totalCustomers] = await Promise.all([
+    prisma.order.groupBy({
+      by: ['currency'],
+      _sum: { totalPrice: true, totalRefunded: true },
+      where: orderWhere,
+    }),
+    prisma.order.count({ where: orderWhere }),
+    prisma.customer.count({ where: range ? { storeId, orders: { some: orderWhere } } : { storeId } }),
+  ]);
+
+  return { totalSpent: sumRevenueByCurrency(revenueByCurrency, mode, fx), totalOrders, totalCustomers };
+}
+
 export async function GET(request: NextRequest) {
   try {
     console.log('[API/totals] Starting request...');
 
-    // Get storeId from query parameter or use first available store
+    // Resolve the requested store and check the signed-in user owns it
     const { searchParams } = new URL(request.url);
     const storeIdParam = searchParams.get('storeId');
-    let storeId = storeIdParam || undefined;
-    if (!storeId) {
-      const s = await prisma.store.findFirst();
-      storeId = s?.id;
+    // Optional date range; without one the totals cover all time
+    const startDate = searchParams.get('startDate');
+    const endDate = searchParams.get('endDate');
+    const revenueMode = resolveRevenueMode(searchParams);
+    if (!revenueMode.ok) return revenueMode.response;
+    const compare = resolveCompare(searchParams);
+    if (!compare.ok) return compare.response;
+    if (!startDate !== !endDate) {
+      return NextResponse.json({ error: 'startDate and endDate must be given together' }, { status: 400 });
+    }
+    if (compare.compare && !startDate) {
+      return NextResponse.json({ error: 'compare requires startDate and endDate' }, { status: 400 });
     }
-    console.log('[API/totals] Store resolved:', storeId || 'None');
+    const access = await resolveStoreAccess(storeIdParam);
+    if (!access.ok) return access.response;
+    const storeId = access.store.id;
+    console.log('[API/totals] Store resolved:', storeId);
+    const currency = resolveReportingCurrency(searchParams, access.store);
+    if (!currency.ok) return currency.response;
+    const timeZone = resolveTimeZone(searchParams, access.store);
+    if (!timeZone.ok) return timeZone.response;
 
-    if (!storeId) {
-      return NextResponse.json({ 
-        error: 'No store found. Please provide a storeId parameter or ensure stores exist in the database.',
-        availableStores: await getAvailableStores() 
-      }, { status: 404 });
+    let range: { gte: Date; lt: Date } | undefined;
+    if (startDate && endDate) {
+      const dayRange = resolveDayRange(startDate, endDate, timeZone.timeZone);
+      if (!dayRange.ok) return dayRange.response;
+      range = dayRange.range;
     }
 
-    // Calculate the totals for the specific store
-    const totalRevenueResult = await prisma.order.aggregate({
-      _sum: { totalPrice: true },
-      where: { storeId },
-    });
-    
-    const totalOrders = await prisma.order.count({
-      where: { storeId },
-    });
-    
-    const totalCustomers = await prisma.customer.count({
-      where: { storeId },
-    });
+    // Both periods convert at the same rates, so the change reflects sales rather than FX moves
+    const fx = await loadCurrencyConverter(currency.currency, range?.lt);
+    const totals = await getTotals(storeId, revenueMode.mode, fx, range);
+
+    let comparison = {};
+    if (compare.compare && startDate && endDate) {
+      const period = comparisonPeriod(startDate, endDate, compare.compare, timeZone.timeZone);
+      const previous = await getTotals(storeId, revenueMode.mode, fx, period.range);
+      comparison = {
+        comparison: { compare: period.compare, startDate: period.startDate, endDate: period.endDate, ...previous },
+        change: {
+          totalSpent: percentChange(totals.totalSpent, previous.totalSpent),
+          totalOrders: percentChange(totals.totalOrders, previous.totalOrders),
+          totalCustomers: percentChange(totals.totalCustomers, previous.totalCustomers),
+        },
+      };
+    }
 
     const response = {
-      totalSpent: Number(totalRevenueResult._sum.totalPrice || 0),
-      totalOrders: totalOrders,
-      totalCustomers: totalCustomers,
+      ...totals,
+      revenueMode: revenueMode.mode,
+      currency: fx.currency,
+      ...comparison,
     };
 
     console.log('[API/totals] Response:', response);
@@ -222,22 +276,10 @@ export async function GET(request: NextRequest) {
 
   } catch (error) {
     console.error("[API/totals] Failed to fetch dashboard totals:", error);
+    const fxError = exchangeRateErrorResponse(error);
+    if (fxError) return fxError;
     const message = error instanceof Error ? error.message : 'An unexpected error occurred';
     return NextResponse.json({ error: message }, { status: 500 });
   } finally {
   }
 }
-
-// Helper function to get available stores for error message
-async function getAvailableStores() {
-  try {
-    const stores = await prisma.store.findMany({
-      select: { id: true, shop: true },
-      take: 10 // Limit to first 10 stores
-    });
-    return stores;
-  } catch (error) {
-    console.error('Error fetching available stores:', error);
-    return [];
-  }
-}
\ No newline at end of file
@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { signInternalRequest } from '@/lib/internal-auth';
+
+const mocks = vi.hoisted(() => ({
+  findStore: vi.fn(),
+  dispatchWebhook: vi.fn(),
+}));
+
+vi.mock('@/lib/prisma', () => ({ default: { store: { findUnique: mocks.findStore } } }));
+vi.mock('@/lib/token-crypto', () => ({ withDecryptedToken: <T>(store: T) => store }));
+vi.mock('@/lib/webhooks', () => ({ dispatchWebhook: mocks.dispatchWebhook, isWebhookTopic: () => true }));
+
+import { POST } from './route';
+
+const SECRET = 'test-internal-secret';
+const BODY = JSON.stringify({ id: 2002 });
+
+function ingestRequest(headers: Record<string, string>, body = BODY) {
+  return new Request('https://example.com/api/internal/ingest', {
+    method: 'POST',
+    body,
+    headers: { 'x-shopify-shop-domain': 'demo.myshopify.com', ...headers },
+  });
+}
+
+function signedHeaders(timestamp = Math.floor(Date.now() / 1000), body = BODY) {
+  return {
+    'x-internal-signature': signInternalRequest(body, timestamp, SECRET),
+    'x-internal-timestamp': String(timestamp),
+  };
+}
+
+beforeEach(() => {
+  vi.stubEnv('INTERNAL_INGEST_SECRET', SECRET);
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  mocks.findStore.mockResolvedValue({ id: 'store-1', shop: 'demo.myshopify.com', accessToken: 'token' });
+  mocks.dispatchWebhook.mockResolvedValue(undefined);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  mocks.findStore.mockReset();
+  mocks.dispatchWebhook.mockReset();
+});
+
+describe('POST /api/internal/ingest', () => {
+  it('returns 401 without signature headers', async () => {
+    const response = await POST(ingestRequest({}));
+    expect(response.status).toBe(401);
+    expect(mocks.dispatchWebhook).not.toHaveBeenCalled();
+  });
+
+  it('returns 401 for a tampered body', async () => {
+    const response = await POST(ingestRequest(signedHeaders(), JSON.stringify({ id: 9999 })));
+    expect(response.status).toBe(401);
+    expect(mocks.findStore).not.toHaveBeenCalled();
+  });
+
+  it('returns 401 for an expired timestamp', async () => {
+    const response = await POST(ingestRequest(signedHeaders(Math.floor(Date.now() / 1000) - 3600)));
+    expect(response.status).toBe(401);
+  });
+
+  it('returns 401 for a length-mismatched signature', async () => {
+    const headers = { ...signedHeaders(), 'x-internal-signature': 'abc' };
+    const response = await POST(ingestRequest(headers));
+    expect(response.status).toBe(401);
+  });
+
+  it('dispatches a correctly signed request', async () => {
+    const response = await POST(ingestRequest(signedHeaders()));
+    expect(response.status).toBe(200);
+    expect(mocks.dispatchWebhook).toHaveBeenCalledWith('orders/create', expect.objectContaining({ id: 'store-1' }), {
+      id: 2002,
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { verifyInternalSignature } from '@/lib/internal-auth';
+import { withDecryptedToken } from '@/lib/token-crypto';
+import { dispatchWebhook, isWebhookTopic } from '@/lib/webhooks';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// Lets internal tooling push Shopify-shaped payloads through the same topic router as real
+// webhooks. Requests must be signed with INTERNAL_INGEST_SECRET (see lib/internal-auth).
+export async function POST(request: Request) {
+  const rawBody = await request.text();
+  const { valid, message } = verifyInternalSignature(
+    rawBody,
+    request.headers.get('x-internal-signature'),
+    request.headers.get('x-internal-timestamp')
+  );
+  if (!valid) {
+    console.error(`[INGEST] Signature verification failed: ${message}`);
+    return NextResponse.json({ error: `Signature verification failed: ${message}` }, { status: 401 });
+  }
+
+  const shop = request.headers.get('x-shopify-shop-domain');
+  const topic = request.headers.get('x-shopify-topic') || 'orders/create';
+  if (!shop) {
+    return NextResponse.json({ error: 'No shop header present.' }, { status: 400 });
+  }
+  if (!isWebhookTopic(topic)) {
+    return NextResponse.json({ error: `Unsupported topic: ${topic}` }, { status: 400 });
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(rawBody);
+  } catch {
+    return NextResponse.json({ error: 'Body must be valid JSON.' }, { status: 400 });
+  }
+
+  try {
+    const store = await prisma.store.findUnique({ where: { shop } });
+    if (!store) {
+      return NextResponse.json({ error: 'Store not found' }, { status: 404 });
+    }
+
+    await dispatchWebhook(topic, withDecryptedToken(store), payload);
+    return NextResponse.json({ ok: true, topic });
+  } catch (error) {
+    console.error(`[INGEST] Error processing ${topic} for ${shop}:`, error);
+    const message = error instanceof Error ? error.message : 'An internal server error occurred.';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma, { withRetry } from '@/lib/prisma';
+import { resolveStoreAccess, withAccessToken } from '@/lib/store-access';
+import { deleteStoreData, revokeAccessToken } from '@/lib/data-deletion';
+import { BACKFILL_MODES, isBackfillMode, type BackfillMode } from '@/lib/sync';
+
+export const dynamic = 'force-dynamic';
+
+const MIN_SYNC_INTERVAL_MINUTES = 15;
+const MAX_SYNC_INTERVAL_MINUTES = 7 * 24 * 60;
+
+// Updates per-store settings: `backfillMode` ("rest" or "bulk") and `syncIntervalMinutes`
+// (minutes between scheduled syncs, or null to turn them off). Omitted fields are left unchanged.
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ storeId: string }> }) {
+  try {
+    const { storeId } = await params;
+    const access = await resolveStoreAccess(storeId);
+    if (!access.ok) return access.response;
+
+    let body: { backfillMode?: unknown; syncIntervalMinutes?: unknown };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Body must be valid JSON.' }, { status: 400 });
+    }
+
+    const data: { backfillMode?: BackfillMode; syncIntervalMinutes?: number | null } = {};
+    if (body.backfillMode !== undefined) {
+      if (!isBackfillMode(body.backfillMode)) {
+        return NextResponse.json({ error: `backfillMode must be one of: ${BACKFILL_MODES.join(', ')}` }, { status: 400 });
+      }
+      data.backfillMode = body.backfillMode;
+    }
+    if (body.syncIntervalMinutes !== undefined) {
+      const interval = body.syncIntervalMinutes;
+      if (
+        interval !== null &&
+        (!Number.isInteger(interval) ||
+          (interval as number) < MIN_SYNC_INTERVAL_MINUTES ||
+          (interval as number) > MAX_SYNC_INTERVAL_MINUTES)
+      ) {
+        return NextResponse.json(
+          {
+            error: `syncIntervalMinutes must be null or a whole number between ${MIN_SYNC_INTERVAL_MINUTES} and ${MAX_SYNC_INTERVAL_MINUTES}`,
+          },
+          { status: 400 }
+        );
+      }
+      data.syncIntervalMinutes = interval as number | null;
+    }
+    if (Object.keys(data).length === 0) {
+      return NextResponse.json({ error: 'No updatable fields provided.' }, { status: 400 });
+    }
+
+    const store = await withRetry(
+      () =>
+        prisma.store.update({
+          where: { id: access.store.id },
+          data,
+          select: { id: true, shop: true, backfillMode: true, syncIntervalMinutes: true },
+        }),
+      'store.update'
+    );
+    return NextResponse.json({ store });
+  } catch (error) {
+    console.error('[API/stores/:storeId] Failed to update store:', error);
+    const message = error instanceof Error ? error.message : 'Unexpected error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// Disconnects a store: uninstalls the app from the shop, then deletes the store and all of
+// its synced data.
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ storeId: string }> }) {
+  try {
+    const { storeId } = await params;
+    const access = await resolveStoreAccess(storeId);
+    if (!access.ok) return access.response;
+    const store = await withAccessToken(access.store);
+
+    await revokeAccessToken(store.shop, store.accessToken);
+    await deleteStoreData(store.id);
+
+    console.log(`[API/stores] Store ${store.shop} disconnected by user ${access.userId}`);
+    return NextResponse.json({ ok: true, id: store.id });
+  } catch (error) {
+    console.error('[API/stores/:storeId] Failed:', error);
+    const message = error instanceof Error ? error.message : 'Unexpected error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
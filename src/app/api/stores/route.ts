@@ -1,21 +1,112 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import prisma from '@/lib/prisma';
+import { requireUser } from '@/lib/store-access';
+import { orderRevenue, resolveRevenueMode, revenueOrderFilter } from '@/lib/revenue';
+import { serializeSyncJob } from '@/lib/sync';
 
-// Return only the first store from the database (no auth filtering)
-export async function GET(_request: NextRequest) {
+// Lists every store owned by the signed-in user with its latest sync status and headline counts,
+// plus an all-stores aggregate. Revenue and order counts follow `revenueMode` like the insights;
+// revenue is never summed across currencies, it is reported per currency.
+export async function GET(request: Request) {
   try {
-    // Get only the first store from the database
-    const firstStore = await prisma.store.findFirst({ 
-      select: { id: true, shop: true }
+    const auth = await requireUser();
+    if (!auth.ok) return auth.response;
+    const revenueMode = resolveRevenueMode(new URL(request.url).searchParams);
+    if (!revenueMode.ok) return revenueMode.response;
+
+    const stores = await prisma.store.findMany({
+      where: { userId: auth.userId },
+      orderBy: { createdAt: 'asc' },
+      select: {
+        id: true,
+        shop: true,
+        currency: true,
+        backfillMode: true,
+        syncIntervalMinutes: true,
+        lastScheduledSyncAt: true,
+        createdAt: true,
+      },
     });
-    
-    // Return as an array to maintain compatibility with existing frontend code
-    const stores = firstStore ? [firstStore] : [];
-    
-    return NextResponse.json({ stores });
+    const storeIds = stores.map((s) => s.id);
+
+    const [orderGroups, customerGroups, productGroups, latestJobs] = await Promise.all([
+      prisma.order.groupBy({
+        by: ['storeId', 'currency'],
+        where: { storeId: { in: storeIds }, ...revenueOrderFilter(revenueMode.mode) },
+        _sum: { totalPrice: true, totalRefunded: true },
+        _count: { _all: true },
+      }),
+      prisma.customer.groupBy({
+        by: ['storeId'],
+        where: { storeId: { in: storeIds } },
+        _count: { _all: true },
+      }),
+      prisma.product.groupBy({
+        by: ['storeId'],
+        where: { storeId: { in: storeIds } },
+        _count: { _all: true },
+      }),
+      // Skipped scheduler runs didn't sync anything, so they don't count as the last sync
+      prisma.syncJob.findMany({
+        where: { storeId: { in: storeIds }, status: { not: 'skipped' } },
+        orderBy: { createdAt: 'desc' },
+        distinct: ['storeId'],
+      }),
+    ]);
+
+    const customerCounts = new Map(customerGroups.map((g) => [g.storeId, g._count._all]));
+    const productCounts = new Map(productGroups.map((g) => [g.storeId, g._count._all]));
+    const jobsByStore = new Map(latestJobs.map((j) => [j.storeId, j]));
+
+    const aggregate = {
+      stores: stores.length,
+      orders: 0,
+      customers: 0,
+      products: 0,
+      revenueByCurrency: {} as Record<string, number>,
+    };
+
+    const result = stores.map((store) => {
+      const groups = orderGroups.filter((g) => g.storeId === store.id);
+      const revenueByCurrency: Record<string, number> = {};
+      let orders = 0;
+      for (const g of groups) {
+        const amount = orderRevenue(g._sum, revenueMode.mode);
+        revenueByCurrency[g.currency] = (revenueByCurrency[g.currency] || 0) + amount;
+        aggregate.revenueByCurrency[g.currency] = (aggregate.revenueByCurrency[g.currency] || 0) + amount;
+        orders += g._count._all;
+      }
+      // Fall back to the currency most of the store's orders were placed in
+      const currency =
+        store.currency ||
+        groups.slice().sort((a, b) => b._count._all - a._count._all)[0]?.currency ||
+        'USD';
+      const customers = customerCounts.get(store.id) || 0;
+      const products = productCounts.get(store.id) || 0;
+      const lastJob = jobsByStore.get(store.id);
+
+      aggregate.orders += orders;
+      aggregate.customers += customers;
+      aggregate.products += products;
+
+      return {
+        id: store.id,
+        shop: store.shop,
+        currency,
+        backfillMode: store.backfillMode,
+        syncIntervalMinutes: store.syncIntervalMinutes,
+        lastScheduledSyncAt: store.lastScheduledSyncAt ? store.lastScheduledSyncAt.toISOString() : null,
+        connectedAt: store.createdAt.toISOString(),
+        counts: { orders, customers, products },
+        revenueByCurrency,
+        lastSync: lastJob ? serializeSyncJob(lastJob) : null,
+      };
+    });
+
+    return NextResponse.json({ stores: result, aggregate, revenueMode: revenueMode.mode });
   } catch (error) {
     console.error('[API/stores] Failed:', error);
     const message = error instanceof Error ? error.message : 'Unexpected error';
     return NextResponse.json({ error: message }, { status: 500 });
   }
-}
\ No newline at end of file
+}
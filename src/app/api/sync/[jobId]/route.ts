@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma, { withRetry } from '@/lib/prisma';
+import { serializeSyncJob } from '@/lib/sync';
+import { requireUser } from '@/lib/store-access';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ jobId: string }> }) {
+  try {
+    const auth = await requireUser();
+    if (!auth.ok) return auth.response;
+
+    const { jobId } = await params;
+    const job = await withRetry(
+      () => prisma.syncJob.findUnique({ where: { id: jobId }, include: { store: { select: { userId: true } } } }),
+      'syncJob.findUnique'
+    );
+
+    // Jobs of other users' stores are reported as missing rather than forbidden
+    if (!job || job.store.userId !== auth.userId) {
+      return NextResponse.json({ error: 'Sync job not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(serializeSyncJob(job));
+  } catch (error) {
+    console.error('[API/sync/:jobId] Failed:', error);
+    const message = error instanceof Error ? error.message : 'An unexpected error occurred';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
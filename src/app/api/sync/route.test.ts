@@ -0,0 +1,62 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  resolveStoreAccess: vi.fn(),
+  findActiveSyncJob: vi.fn(),
+  createSyncJob: vi.fn(),
+  enqueueSyncRun: vi.fn(),
+  drainQueue: vi.fn(),
+  after: vi.fn(),
+}));
+
+vi.mock('next/server', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('next/server')>()),
+  after: mocks.after,
+}));
+vi.mock('@/lib/prisma', () => ({ default: {}, withRetry: <T>(fn: () => Promise<T>) => fn() }));
+vi.mock('@/lib/store-access', () => ({ resolveStoreAccess: mocks.resolveStoreAccess }));
+vi.mock('@/lib/sync', () => ({
+  findActiveSyncJob: mocks.findActiveSyncJob,
+  createSyncJob: mocks.createSyncJob,
+  runSyncJob: vi.fn(),
+  serializeSyncJob: (job: { id: string; status: string }) => ({ id: job.id, status: job.status }),
+}));
+vi.mock('@/lib/jobs', () => ({ enqueueSyncRun: mocks.enqueueSyncRun, drainQueue: mocks.drainQueue }));
+
+import { POST } from './route';
+
+const STORE = { id: 'store-1', shop: 'demo.myshopify.com' };
+
+function sync() {
+  return POST(new Request('https://example.com/api/sync?storeId=store-1', { method: 'POST' }));
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  mocks.resolveStoreAccess.mockResolvedValue({ ok: true, store: STORE });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.resetAllMocks();
+});
+
+describe('POST /api/sync', () => {
+  it('returns the sync already in flight instead of queueing another', async () => {
+    mocks.findActiveSyncJob.mockResolvedValue({ id: 'job-1', status: 'running' });
+    const res = await sync();
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ job: { id: 'job-1', status: 'running' } });
+    expect(mocks.createSyncJob).not.toHaveBeenCalled();
+    expect(mocks.enqueueSyncRun).not.toHaveBeenCalled();
+  });
+
+  it('queues a new sync and starts the queue after responding', async () => {
+    mocks.findActiveSyncJob.mockResolvedValue(null);
+    mocks.createSyncJob.mockResolvedValue({ id: 'job-2', status: 'queued' });
+    const res = await sync();
+    expect(res.status).toBe(202);
+    expect(mocks.enqueueSyncRun).toHaveBeenCalledWith('store-1', 'job-2');
+    expect(mocks.after).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { verifyWebhookRequest } from '@/lib/shopify-hmac';
+import { acceptWebhook } from '@/lib/jobs';
+import { isComplianceTopic } from '@/lib/webhooks';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// Compliance URL for Shopify's mandatory GDPR webhooks:
+// customers/data_request, customers/redact and shop/redact.
+export async function POST(request: Request) {
+  const { valid, message, rawBody } = await verifyWebhookRequest(request);
+  if (!valid) {
+    console.error(`Compliance webhook verification failed: ${message}`);
+    return NextResponse.json({ error: `Webhook verification failed: ${message}` }, { status: 401 });
+  }
+
+  const topic = request.headers.get('x-shopify-topic');
+  if (!topic || !isComplianceTopic(topic)) {
+    return NextResponse.json({ error: `Unsupported topic: ${topic}` }, { status: 400 });
+  }
+
+  try {
+    const payload = JSON.parse(rawBody);
+    const shop = request.headers.get('x-shopify-shop-domain') || payload.shop_domain;
+    if (!shop) {
+      return NextResponse.json({ error: 'No shop header present.' }, { status: 400 });
+    }
+
+    // The store may already be gone (e.g. shop/redact after app/uninstalled); that's still a success
+    const store = await prisma.store.findUnique({ where: { shop }, select: { id: true } });
+    const webhookId = request.headers.get('x-shopify-webhook-id');
+    const accepted = await acceptWebhook({ webhookId, topic, shop, rawBody, storeId: store?.id ?? null });
+    return new NextResponse(accepted ? 'Webhook accepted.' : 'Duplicate webhook ignored.', { status: 200 });
+  } catch (error) {
+    console.error(`[GDPR] Error processing ${topic}:`, error);
+    const message = error instanceof Error ? error.message : 'An internal server error occurred.';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
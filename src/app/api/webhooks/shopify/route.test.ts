@@ -0,0 +1,68 @@
+import crypto from 'crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  findStore: vi.fn(),
+  acceptWebhook: vi.fn(),
+}));
+
+vi.mock('@/lib/prisma', () => ({ default: { store: { findUnique: mocks.findStore } } }));
+vi.mock('@/lib/jobs', () => ({ acceptWebhook: mocks.acceptWebhook }));
+
+import { POST } from './route';
+
+const SECRET = 'test-shopify-secret';
+const BODY = JSON.stringify({ id: 1001 });
+
+function webhookRequest(hmac: string | null, body = BODY) {
+  const headers: Record<string, string> = {
+    'x-shopify-shop-domain': 'demo.myshopify.com',
+    'x-shopify-topic': 'orders/create',
+    'x-shopify-webhook-id': 'wh-1',
+  };
+  if (hmac !== null) headers['x-shopify-hmac-sha256'] = hmac;
+  return new Request('https://example.com/api/webhooks/shopify', { method: 'POST', body, headers });
+}
+
+const sign = (body: string) => crypto.createHmac('sha256', SECRET).update(body, 'utf8').digest('base64');
+
+beforeEach(() => {
+  vi.stubEnv('SHOPIFY_API_SECRET', SECRET);
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  mocks.findStore.mockResolvedValue({ id: 'store-1' });
+  mocks.acceptWebhook.mockResolvedValue(true);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  mocks.findStore.mockReset();
+  mocks.acceptWebhook.mockReset();
+});
+
+describe('POST /api/webhooks/shopify', () => {
+  it('returns 401 without an HMAC header', async () => {
+    const response = await POST(webhookRequest(null));
+    expect(response.status).toBe(401);
+    expect(mocks.acceptWebhook).not.toHaveBeenCalled();
+  });
+
+  it('returns 401 for a tampered body', async () => {
+    const response = await POST(webhookRequest(sign(BODY), JSON.stringify({ id: 9999 })));
+    expect(response.status).toBe(401);
+    expect(mocks.findStore).not.toHaveBeenCalled();
+  });
+
+  it('returns 401 for a length-mismatched HMAC', async () => {
+    const response = await POST(webhookRequest('abc'));
+    expect(response.status).toBe(401);
+  });
+
+  it('accepts a correctly signed delivery', async () => {
+    const response = await POST(webhookRequest(sign(BODY)));
+    expect(response.status).toBe(200);
+    expect(mocks.acceptWebhook).toHaveBeenCalledWith(
+      expect.objectContaining({ webhookId: 'wh-1', topic: 'orders/create', rawBody: BODY, storeId: 'store-1' })
+    );
+  });
+});
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { verifyWebhookRequest } from '@/lib/shopify-hmac';
+import { acceptWebhook } from '@/lib/jobs';
+import { isWebhookTopic } from '@/lib/webhooks';
+
+export const maxDuration = 60;
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// Single endpoint for every subscribed topic; routing is driven by the X-Shopify-Topic header.
+// Verified payloads are logged (deduped on X-Shopify-Webhook-Id) and processed inline; failures are
+// queued for the background worker to retry.
+export async function POST(request: Request) {
+  const { valid, message, rawBody } = await verifyWebhookRequest(request);
+  if (!valid) {
+    console.error(`Webhook verification failed: ${message}`);
+    return NextResponse.json({ error: `Webhook verification failed: ${message}` }, { status: 401 });
+  }
+
+  const shop = request.headers.get('x-shopify-shop-domain');
+  const topic = request.headers.get('x-shopify-topic');
+  if (!shop || !topic) {
+    return NextResponse.json({ error: 'Missing shop or topic header.' }, { status: 400 });
+  }
+  if (!isWebhookTopic(topic)) {
+    console.warn(`[WEBHOOK] Unsupported topic ${topic} from ${shop}`);
+    return NextResponse.json({ error: `Unsupported topic: ${topic}` }, { status: 400 });
+  }
+
+  try {
+    const store = await prisma.store.findUnique({ where: { shop }, select: { id: true } });
+    if (!store) {
+      console.warn(`Webhook received for an unknown store: ${shop}`);
+      return NextResponse.json({ error: 'Store not found' }, { status: 404 });
+    }
+
+    const webhookId = request.headers.get('x-shopify-webhook-id');
+    const accepted = await acceptWebhook({ webhookId, topic, shop, rawBody, storeId: store.id });
+    return new NextResponse(accepted ? 'Webhook accepted.' : 'Duplicate webhook ignored.', { status: 200 });
+  } catch (error) {
+    console.error(`[WEBHOOK] Error processing ${topic} for ${shop}:`, error);
+    const message = error instanceof Error ? error.message : 'An internal server error occurred.';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,10 +1,27 @@
 // src/app/connect/page.tsx
 'use client';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+
+// Error codes set by /api/auth/shopify and the OAuth callback
+const ERROR_MESSAGES: Record<string, string> = {
+  invalid_shop: 'That does not look like a valid .myshopify.com store domain.',
+  invalid_state: 'The connection request expired or was tampered with. Please try again.',
+  invalid_hmac: 'Shopify could not be verified as the sender of this request. Please try again.',
+  missing_params: 'Shopify did not return the expected parameters. Please try again.',
+  not_configured: 'The Shopify app is not configured on this server.',
+  store_already_connected:
+    'This store is already connected to another account. Ask its owner to disconnect it before connecting it here.',
+};
 
 export default function ConnectPage() {
   const [shop, setShop] = useState('');
   const [isConnecting, setIsConnecting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const code = new URLSearchParams(window.location.search).get('error');
+    if (code) setError(ERROR_MESSAGES[code] || code);
+  }, []);
 
   const handleConnect = () => {
     if (!shop) {
@@ -13,15 +30,15 @@ export default function ConnectPage() {
     }
 
     // Ensure the shop domain is formatted correctly
-    let shopDomain = shop.trim();
-    if (!shopDomain.includes('.myshopify.com')) {
+    let shopDomain = shop.trim().toLowerCase();
+    if (!shopDomain.endsWith('.myshopify.com')) {
       shopDomain += '.myshopify.com';
     }
 
     setIsConnecting(true);
     
     // Redirect to our OAuth route
-    window.location.href = `/api/auth/shopify?shop=${shopDomain}`;
+    window.location.href = `/api/auth/shopify?shop=${encodeURIComponent(shopDomain)}`;
   };
 
   return (
@@ -31,6 +48,12 @@ export default function ConnectPage() {
           Connect Your Shopify Store
         </h1>
         
+        {error && (
+          <div className="mb-4 rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700" role="alert">
+            {error}
+          </div>
+        )}
+
         <div className="space-y-4">
           <div>
             <label htmlFor="shop" className="block text-sm font-medium text-gray-700 mb-2">
@@ -2,18 +2,46 @@
 
 import type React from "react"
 
-import { useState, useEffect, useCallback } from "react"
+import { Suspense, useState, useEffect, useCallback, useMemo, useRef } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
 import { ComposedChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Bar } from "recharts"
-import type { DateRange } from "react-day-picker"
-import { addDays, format } from "date-fns"
+import * as Popover from "@radix-ui/react-popover"
+import { DayPicker, type DateRange } from "react-day-picker"
+import "react-day-picker/style.css"
+import {
+  addDays,
+  addMonths,
+  format,
+  isValid,
+  parseISO,
+  startOfDay,
+  startOfMonth,
+  startOfQuarter,
+  startOfYear,
+} from "date-fns"
 import { useClerk } from "@clerk/nextjs"
-import { TrendingUp, Users, ShoppingCart, DollarSign, Activity, Crown, RefreshCw, X } from "lucide-react"
+import {
+  TrendingUp,
+  Users,
+  ShoppingCart,
+  DollarSign,
+  Activity,
+  Crown,
+  RefreshCw,
+  X,
+  Package,
+  Store,
+  CalendarDays,
+} from "lucide-react"
 
 // --- Interface Definitions ---
 interface Totals {
   totalSpent: number
   totalOrders: number
   totalCustomers: number
+  currency: string
+  // Percentage change vs the comparison period; null when that period had none
+  change?: { totalSpent: number | null; totalOrders: number | null; totalCustomers: number | null }
 }
 interface CurrentMonth {
   revenue: number
@@ -50,24 +78,136 @@ interface TopOrder {
   customerEmail?: string
 }
 
+interface TopProduct {
+  productId: string | null
+  title: string
+  vendor: string | null
+  productType: string | null
+  units: number
+  revenue: number
+  buyers: number
+}
+
+interface SyncJob {
+  id: string
+  trigger: "manual" | "schedule"
+  status: "queued" | "running" | "succeeded" | "failed" | "skipped"
+  counts: { customers: number; products: number; orders: number }
+  error: string | null
+  finishedAt: string | null
+}
+
 interface StoreSummary {
   id: string
   shop: string
+  currency: string
+  counts: { orders: number; customers: number; products: number }
+  revenueByCurrency: Record<string, number>
+  lastSync: SyncJob | null
 }
 
-// --- Main Dashboard Component ---
+interface StoresAggregate {
+  stores: number
+  orders: number
+  customers: number
+  products: number
+  revenueByCurrency: Record<string, number>
+}
+
+// Pseudo store id for the aggregate view across every store the user owns
+const ALL_STORES = "all"
+
+const formatMoney = (value: number, currency: string) => {
+  try {
+    return new Intl.NumberFormat("en-IN", { style: "currency", currency, maximumFractionDigits: 2 }).format(value)
+  } catch {
+    // Unknown ISO code; show the raw code rather than failing the render
+    return `${currency} ${value.toLocaleString("en-IN")}`
+  }
+}
+
+const formatChange = (change: number) => `${change > 0 ? "+" : ""}${change.toFixed(1)}%`
+
+// Time-series keys are ISO bucket starts in the store's timezone: "2024-09-03", or "2024-09-03T14:00" for hours
+const formatBucketLabel = (key: string) => {
+  const isHour = key.length > 10
+  const date = new Date(isHour ? `${key}:00Z` : `${key}T00:00:00Z`)
+  return isHour
+    ? date.toLocaleString("en-US", { month: "short", day: "numeric", hour: "numeric", timeZone: "UTC" })
+    : date.toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" })
+}
+
+// Date range presets. The selection lives in the query string (?range=last_7_days, or
+// ?range=custom&from=2024-09-01&to=2024-09-30) so a dashboard view can be shared or reloaded.
+// Presets are rolling: a shared "last 7 days" link always ends today.
+const RANGE_PRESETS = [
+  { id: "today", label: "Today" },
+  { id: "last_7_days", label: "Last 7 days" },
+  { id: "last_30_days", label: "Last 30 days" },
+  { id: "last_90_days", label: "Last 90 days" },
+  { id: "mtd", label: "Month to date" },
+  { id: "qtd", label: "Quarter to date" },
+  { id: "ytd", label: "Year to date" },
+  { id: "custom", label: "Custom" },
+] as const
+type RangePreset = (typeof RANGE_PRESETS)[number]["id"]
+const DEFAULT_PRESET: RangePreset = "last_30_days"
+
+interface SelectedRange {
+  preset: RangePreset
+  from: Date
+  to: Date
+}
+
+const presetRange = (preset: Exclude<RangePreset, "custom">): SelectedRange => {
+  const today = startOfDay(new Date())
+  const from = {
+    today: today,
+    last_7_days: addDays(today, -6),
+    last_30_days: addDays(today, -29),
+    last_90_days: addDays(today, -89),
+    mtd: startOfMonth(today),
+    qtd: startOfQuarter(today),
+    ytd: startOfYear(today),
+  }[preset]
+  return { preset, from, to: today }
+}
+
+// The range in the query string, or the default preset when it is missing or malformed
+const parseRangeParams = (params: { get(name: string): string | null }): SelectedRange => {
+  const preset = RANGE_PRESETS.find((p) => p.id === params.get("range"))?.id ?? DEFAULT_PRESET
+  if (preset !== "custom") return presetRange(preset)
+
+  const from = parseISO(params.get("from") ?? "")
+  const to = parseISO(params.get("to") ?? "")
+  if (!isValid(from) || !isValid(to) || from > to) return presetRange(DEFAULT_PRESET)
+  return { preset, from, to }
+}
+
+const formatRange = ({ from, to }: { from: Date; to: Date }) => {
+  if (from.getTime() === to.getTime()) return format(from, "MMM d, yyyy")
+  return `${format(from, from.getFullYear() === to.getFullYear() ? "MMM d" : "MMM d, yyyy")} – ${format(to, "MMM d, yyyy")}`
+}
+
+// useSearchParams needs a Suspense boundary for the page to prerender
 export default function DashboardPage() {
+  return (
+    <Suspense fallback={null}>
+      <Dashboard />
+    </Suspense>
+  )
+}
+
+// --- Main Dashboard Component ---
+function Dashboard() {
   // --- State Management ---
   const [totals, setTotals] = useState<Totals | null>(null)
   const [chartData, setChartData] = useState<ChartData[]>([])
   const [avgRevenueData, setAvgRevenueData] = useState<AvgRevenueData[]>([])
   const [topCustomers, setTopCustomers] = useState<TopCustomer[]>([])
   const [topOrders, setTopOrders] = useState<TopOrder[]>([])
+  const [topProducts, setTopProducts] = useState<TopProduct[]>([])
   const [currentMonth, setCurrentMonth] = useState<CurrentMonth | null>(null)
-  const [date] = useState<DateRange | undefined>({
-    from: addDays(new Date(), -30), // Default to last 30 days
-    to: new Date(),
-  })
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [isSyncing, setIsSyncing] = useState(false)
@@ -79,30 +219,63 @@ export default function DashboardPage() {
   const [isOrdersLoading, setIsOrdersLoading] = useState(false)
 
   const [stores, setStores] = useState<StoreSummary[]>([])
+  const [storesAggregate, setStoresAggregate] = useState<StoresAggregate | null>(null)
   const [storeId, setStoreId] = useState<string | null>(null)
 
   const { signOut } = useClerk()
+  const router = useRouter()
+  const searchParams = useSearchParams()
+
+  const selectedRange = useMemo(() => parseRangeParams(searchParams), [searchParams])
+  // Shared by every ranged insights request; a string so it only changes with the dates
+  const rangeQuery = `startDate=${format(selectedRange.from, "yyyy-MM-dd")}&endDate=${format(selectedRange.to, "yyyy-MM-dd")}`
+
+  // Writes the range to the URL, which re-derives selectedRange and refetches
+  const selectRange = useCallback(
+    (range: SelectedRange) => {
+      const params = new URLSearchParams(searchParams.toString())
+      params.set("range", range.preset)
+      if (range.preset === "custom") {
+        params.set("from", format(range.from, "yyyy-MM-dd"))
+        params.set("to", format(range.to, "yyyy-MM-dd"))
+      } else {
+        params.delete("from")
+        params.delete("to")
+      }
+      router.replace(`?${params.toString()}`, { scroll: false })
+    },
+    [router, searchParams],
+  )
+
+  const selectedStore = stores.find((s) => s.id === storeId)
+  // Insights report amounts in the store's currency unless another is requested
+  const currency = totals?.currency || selectedStore?.currency || "INR"
+
+  const loadStores = useCallback(async () => {
+    const res = await fetch("/api/stores", { cache: "no-store" })
+    if (!res.ok) throw new Error("Failed to load stores")
+
+    const data = (await res.json()) as { stores: StoreSummary[]; aggregate: StoresAggregate }
+    setStores(data.stores || [])
+    setStoresAggregate(data.aggregate || null)
+    return data.stores || []
+  }, [])
 
   const ensureStoreSelected = useCallback(async () => {
     if (storeId) return storeId
     
     try {
-      const res = await fetch("/api/stores", { cache: "no-store" })
-      if (!res.ok) throw new Error("Failed to load stores")
-      
-      const data = (await res.json()) as { stores: StoreSummary[] }
-      setStores(data.stores || [])
-      
-      const first = data.stores?.[0]?.id || null
+      const loaded = await loadStores()
+      const first = loaded[0]?.id || null
       setStoreId(first)
       
-      if (!first) throw new Error("No stores found in the database")
+      if (!first) throw new Error("No stores connected yet")
       return first
     } catch (error) {
       console.error("Error loading stores:", error)
       throw error
     }
-  }, [storeId])
+  }, [storeId, loadStores])
 
   const withStoreParam = (url: string, id: string) => {
     const sep = url.includes("?") ? "&" : "?"
@@ -110,33 +283,38 @@ export default function DashboardPage() {
   }
 
   // --- Data Fetching Logic ---
-  const fetchData = useCallback(async () => {
-    setIsLoading(true)
+  // `showLoading` false refreshes in place, without swapping the current data for skeletons
+  const fetchData = useCallback(async (showLoading = true) => {
+    if (showLoading) setIsLoading(true)
     setError(null)
     
     try {
       const id = await ensureStoreSelected()
+
+      // The aggregate view is built from the per-store summaries
+      if (id === ALL_STORES) {
+        await loadStores()
+        return
+      }
       
       // Fetch all dashboard data in parallel for better performance
-      const [totalsRes, chartRes, avgRevRes, topCustomersRes, currentMonthRes] = await Promise.all([
-        fetch(withStoreParam("/api/insights/totals", id)),
-        fetch(
-          withStoreParam(
-            `/api/insights/orders-by-date?startDate=${format(date!.from!, "yyyy-MM-dd")}&endDate=${format(date!.to!, "yyyy-MM-dd")}`,
-            id,
-          ),
-        ),
-        fetch(
-          withStoreParam(
-            `/api/insights/avg-revenue-by-date?startDate=${format(date!.from!, "yyyy-MM-dd")}&endDate=${format(date!.to!, "yyyy-MM-dd")}`,
-            id,
-          ),
-        ),
-        fetch(withStoreParam("/api/insights/top-customers", id)),
+      const [totalsRes, chartRes, avgRevRes, topCustomersRes, currentMonthRes, topProductsRes] = await Promise.all([
+        fetch(withStoreParam(`/api/insights/totals?${rangeQuery}&compare=previous_period`, id)),
+        fetch(withStoreParam(`/api/insights/orders-by-date?${rangeQuery}`, id)),
+        fetch(withStoreParam(`/api/insights/avg-revenue-by-date?${rangeQuery}`, id)),
+        fetch(withStoreParam(`/api/insights/top-customers?${rangeQuery}`, id)),
         fetch(withStoreParam("/api/insights/current-month", id)),
+        fetch(withStoreParam(`/api/insights/top-products?${rangeQuery}`, id)),
       ])
 
-      if (!totalsRes.ok || !chartRes.ok || !avgRevRes.ok || !topCustomersRes.ok || !currentMonthRes.ok) {
+      if (
+        !totalsRes.ok ||
+        !chartRes.ok ||
+        !avgRevRes.ok ||
+        !topCustomersRes.ok ||
+        !currentMonthRes.ok ||
+        !topProductsRes.ok
+      ) {
         throw new Error("One or more data requests failed. Please refresh.")
       }
 
@@ -145,6 +323,7 @@ export default function DashboardPage() {
       const avgRevenueData = await avgRevRes.json()
       const topCustomersAndOrdersData = await topCustomersRes.json()
       const currentMonthData = await currentMonthRes.json()
+      const topProductsData = (await topProductsRes.json()) as { topProducts: TopProduct[] }
 
       setTotals(totalsData)
       setChartData(chartData)
@@ -166,6 +345,7 @@ export default function DashboardPage() {
       }
       
       setCurrentMonth(currentMonthData)
+      setTopProducts(topProductsData.topProducts || [])
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : String(err)
       console.error("Error fetching dashboard data:", err)
@@ -173,41 +353,31 @@ export default function DashboardPage() {
     } finally {
       setIsLoading(false)
     }
-  }, [date, ensureStoreSelected])
+  }, [rangeQuery, ensureStoreSelected, loadStores])
 
-  // Poll totals endpoint until data is available or timeout
-  const pollUntilReady = useCallback(async () => {
-    const timeoutMs = 30000
+  // Poll the sync job until it finishes; null if it is still going at the timeout (bulk syncs
+  // keep running in the background)
+  const pollSyncJob = useCallback(async (jobId: string) => {
+    const timeoutMs = 60000
     const start = Date.now()
     let delay = 1000
-    
-    try {
-      const id = await ensureStoreSelected()
-      
-      while (Date.now() - start < timeoutMs) {
-        try {
-          const res = await fetch(withStoreParam("/api/insights/totals", id), { cache: "no-store" })
-          if (res.ok) {
-            const data: Totals = await res.json()
-            const hasData = (data.totalOrders ?? 0) > 0 || (data.totalCustomers ?? 0) > 0 || (data.totalSpent ?? 0) > 0
-            if (hasData) {
-              setTotals(data)
-              return true
-            }
-          }
-        } catch (pollError) {
-          console.error("Polling error:", pollError)
+
+    while (Date.now() - start < timeoutMs) {
+      try {
+        const res = await fetch(`/api/sync/${encodeURIComponent(jobId)}`, { cache: "no-store" })
+        if (res.ok) {
+          const job: SyncJob = await res.json()
+          if (job.status === "succeeded" || job.status === "failed") return job
         }
-        
-        await new Promise((r) => setTimeout(r, delay))
-        delay = Math.min(Math.floor(delay * 1.5), 5000)
+      } catch (pollError) {
+        console.error("Polling error:", pollError)
       }
-      return false
-    } catch (error) {
-      console.error("Poll until ready error:", error)
-      return false
+
+      await new Promise((r) => setTimeout(r, delay))
+      delay = Math.min(Math.floor(delay * 1.5), 5000)
     }
-  }, [ensureStoreSelected])
+    return null
+  }, [])
 
   // --- Sync Data Function ---
   const syncData = useCallback(async () => {
@@ -216,21 +386,31 @@ export default function DashboardPage() {
     
     try {
       const id = await ensureStoreSelected()
-      
-      // Start sync in background (no wait)
-      const response = await fetch(withStoreParam("/api/sync", id), {
-        method: "POST",
-      })
-
-      if (!response.ok && response.status !== 202) {
-        const errorData = await response.json().catch(() => ({}))
-        throw new Error(errorData.error || "Failed to start sync")
-      }
+      const ids = id === ALL_STORES ? stores.map((s) => s.id) : [id]
+
+      // Start each store's sync (the API returns the one already in flight, if any), then wait for
+      // them together
+      const jobs = await Promise.all(
+        ids.map(async (syncStoreId) => {
+          const response = await fetch(withStoreParam("/api/sync", syncStoreId), {
+            method: "POST",
+          })
 
-      // Poll until totals shows data or timeout, then fetch full dashboard
-      await pollUntilReady()
-      setLastSynced(new Date())
-      await fetchData()
+          if (!response.ok) {
+            const errorData = await response.json().catch(() => ({}))
+            throw new Error(errorData.error || "Failed to start sync")
+          }
+          return ((await response.json()) as { job: SyncJob }).job
+        }),
+      )
+      const finished = await Promise.all(jobs.map((job) => pollSyncJob(job.id)))
+      const failed = finished.find((job) => job?.status === "failed")
+      if (failed) throw new Error(failed.error || "Sync failed")
+      const finishedAt = finished.flatMap((job) => (job?.finishedAt ? [new Date(job.finishedAt).getTime()] : []))
+      if (finishedAt.length > 0) setLastSynced(new Date(Math.max(...finishedAt)))
+
+      // Refresh the data already on screen with whatever the sync brought in
+      await fetchData(false)
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : String(err)
       console.error("Error syncing data:", err)
@@ -238,7 +418,33 @@ export default function DashboardPage() {
     } finally {
       setIsSyncing(false)
     }
-  }, [fetchData, pollUntilReady, ensureStoreSelected])
+  }, [fetchData, pollSyncJob, ensureStoreSelected, stores])
+
+  // --- Disconnect Store Function ---
+  const disconnectStore = useCallback(async () => {
+    if (!selectedStore) return
+    if (!window.confirm(`Disconnect ${selectedStore.shop}? All of its synced data will be deleted.`)) return
+
+    setError(null)
+    try {
+      const res = await fetch(`/api/stores/${encodeURIComponent(selectedStore.id)}`, { method: "DELETE" })
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}))
+        throw new Error(errorData.error || "Failed to disconnect store")
+      }
+
+      const remaining = await loadStores()
+      if (remaining.length === 0) {
+        window.location.href = "/connect"
+        return
+      }
+      setStoreId(remaining[0].id)
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err)
+      console.error("Error disconnecting store:", err)
+      setError(message)
+    }
+  }, [selectedStore, loadStores])
 
   const loadCustomerOrders = useCallback(
     async (customerId: string) => {
@@ -246,10 +452,7 @@ export default function DashboardPage() {
       try {
         const id = await ensureStoreSelected()
         const res = await fetch(
-          withStoreParam(
-            `/api/insights/customer-orders?customerId=${customerId}&startDate=${format(date!.from!, "yyyy-MM-dd")}&endDate=${format(date!.to!, "yyyy-MM-dd")}`,
-            id
-          )
+          withStoreParam(`/api/insights/customer-orders?customerId=${customerId}&${rangeQuery}`, id)
         )
         if (!res.ok) throw new Error("Failed to load customer orders")
         const data = await res.json()
@@ -261,14 +464,19 @@ export default function DashboardPage() {
         setIsOrdersLoading(false)
       }
     },
-    [date, ensureStoreSelected],
+    [rangeQuery, ensureStoreSelected],
   )
 
-  // Initial data fetch and sync
+  // Initial load runs once; later store switches only refetch (see below)
+  const hasInitialized = useRef(false)
   useEffect(() => {
+    if (hasInitialized.current) return
+    hasInitialized.current = true
+
     const initializeDashboard = async () => {
       try {
-        // Start background sync and poll; then fetch dashboard data
+        // Show the stored data first, then sync in the background and refresh it
+        await fetchData()
         await syncData()
       } catch (error) {
         console.error("Failed to initialize dashboard:", error)
@@ -279,7 +487,13 @@ export default function DashboardPage() {
     }
 
     initializeDashboard()
-  }, [syncData])
+  }, [fetchData, syncData])
+
+  // Refetch whenever the selected store or date range changes after initialization
+  useEffect(() => {
+    if (!hasInitialized.current || !storeId) return
+    fetchData()
+  }, [storeId, fetchData])
 
   // --- Render Method ---
   return (
@@ -297,9 +511,19 @@ export default function DashboardPage() {
             </div>
             <div className="flex items-center space-x-4">
               {stores.length > 0 && (
-                <div className="text-sm text-slate-700 bg-white px-3 py-2 rounded-md border border-slate-200">
-                  Store: {stores[0].shop}
-                </div>
+                <select
+                  aria-label="Select store"
+                  value={storeId ?? ""}
+                  onChange={(e) => setStoreId(e.target.value)}
+                  className="text-sm text-slate-700 bg-white px-3 py-2 rounded-md border border-slate-200 focus:outline-none focus:ring-2 focus:ring-teal-500"
+                >
+                  {stores.map((s) => (
+                    <option key={s.id} value={s.id}>
+                      {s.shop}
+                    </option>
+                  ))}
+                  {stores.length > 1 && <option value={ALL_STORES}>All stores</option>}
+                </select>
               )}
               {lastSynced && (
                 <div className="text-sm text-slate-500">Last synced: {lastSynced.toLocaleTimeString()}</div>
@@ -312,6 +536,15 @@ export default function DashboardPage() {
                 <RefreshCw className={`w-4 h-4 ${isSyncing ? "animate-spin" : ""}`} />
                 <span>{isSyncing ? "Syncing..." : "Refresh Data"}</span>
               </button>
+              {selectedStore && (
+                <button
+                  onClick={disconnectStore}
+                  disabled={isSyncing}
+                  className="px-4 py-2 text-sm font-medium text-red-600 hover:text-red-700 hover:bg-red-50 rounded-lg transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Disconnect
+                </button>
+              )}
               <button
                 onClick={() =>
                   signOut(() => {
@@ -357,39 +590,48 @@ export default function DashboardPage() {
           </div>
         )}
 
+        {storeId === ALL_STORES ? (
+          <AllStoresOverview
+            stores={stores}
+            aggregate={storesAggregate}
+            isLoading={isLoading}
+            onSelectStore={setStoreId}
+          />
+        ) : (
+        <>
+        <div className="flex items-center justify-end">
+          <DateRangePicker value={selectedRange} onChange={selectRange} />
+        </div>
+
         <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
           <MetricCard
             title="Total Revenue"
-            value={totals ? `₹${totals.totalSpent.toLocaleString("en-IN")}` : ""}
+            value={totals ? formatMoney(totals.totalSpent, currency) : ""}
             isLoading={isLoading}
             icon={DollarSign}
-            trend="+12.5%"
-            trendUp={true}
+            trend={totals?.change?.totalSpent}
           />
           <MetricCard
             title="Total Orders"
             value={totals?.totalOrders.toString()}
             isLoading={isLoading}
             icon={ShoppingCart}
-            trend="+8.2%"
-            trendUp={true}
+            trend={totals?.change?.totalOrders}
           />
           <MetricCard
             title="Total Customers"
             value={totals?.totalCustomers.toString()}
             isLoading={isLoading}
             icon={Users}
-            trend="+15.3%"
-            trendUp={true}
+            trend={totals?.change?.totalCustomers}
           />
           {currentMonth && (
             <MetricCard
               title={`Current Month Revenue`}
-              value={`₹${currentMonth.revenue.toLocaleString("en-IN")}`}
+              value={formatMoney(currentMonth.revenue, currency)}
               isLoading={isLoading}
               icon={DollarSign}
-              trend={`${currentMonth.orders.toLocaleString("en-IN")} orders`}
-              trendUp={true}
+              note={`${currentMonth.orders.toLocaleString("en-IN")} orders`}
             />
           )}
         </div>
@@ -397,11 +639,12 @@ export default function DashboardPage() {
         <div className="grid grid-cols-1 xl:grid-cols-3 gap-8">
           <div className="xl:col-span-2 space-y-8">
             <ChartCard chartData={chartData} isLoading={isLoading} />
-            <AvgRevenueCard avgRevenueData={avgRevenueData} isLoading={isLoading} />
+            <AvgRevenueCard avgRevenueData={avgRevenueData} currency={currency} isLoading={isLoading} />
           </div>
           <div className="xl:col-span-1 space-y-8">
             <TopCustomersCard
               topCustomers={topCustomers}
+              currency={currency}
               isLoading={isLoading}
               onSelectCustomer={(c) => {
                 if (!c.customerId) return
@@ -410,8 +653,11 @@ export default function DashboardPage() {
               }}
             />
             <TopOrdersCard topOrders={topOrders} isLoading={isLoading} />
+            <TopProductsCard topProducts={topProducts} currency={currency} isLoading={isLoading} />
           </div>
         </div>
+        </>
+        )}
 
         {selectedCustomer && (
           <CustomerOrdersModal
@@ -429,20 +675,99 @@ export default function DashboardPage() {
   )
 }
 
+const DateRangePicker = ({
+  value,
+  onChange,
+}: {
+  value: SelectedRange
+  onChange: (range: SelectedRange) => void
+}) => {
+  const [open, setOpen] = useState(false)
+  // A custom range being picked; the first click sets its start, the second its end
+  const [draft, setDraft] = useState<DateRange | undefined>()
+
+  const choose = (range: SelectedRange) => {
+    onChange(range)
+    setOpen(false)
+  }
+
+  return (
+    <Popover.Root
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next)
+        setDraft(undefined)
+      }}
+    >
+      <Popover.Trigger asChild>
+        <button className="flex items-center space-x-2 px-4 py-2 text-sm font-medium text-slate-700 bg-white rounded-lg border border-teal-100 shadow-sm hover:border-teal-200 hover:bg-teal-50 transition-colors duration-200">
+          <CalendarDays className="w-4 h-4 text-teal-600" />
+          <span>{RANGE_PRESETS.find((p) => p.id === value.preset)?.label}</span>
+          <span className="text-slate-500">{formatRange(value)}</span>
+        </button>
+      </Popover.Trigger>
+      <Popover.Portal>
+        <Popover.Content
+          align="end"
+          sideOffset={8}
+          className="z-50 flex bg-white rounded-2xl shadow-lg border border-teal-100 p-4 space-x-4"
+        >
+          <div className="flex flex-col space-y-1 pr-4 border-r border-slate-100">
+            {RANGE_PRESETS.map((p) =>
+              p.id === "custom" ? (
+                <p key={p.id} className="px-3 py-2 text-xs text-slate-500">
+                  Custom: pick a start and end date
+                </p>
+              ) : (
+                <button
+                  key={p.id}
+                  onClick={() => choose(presetRange(p.id))}
+                  className={`px-3 py-2 text-left text-sm rounded-lg transition-colors duration-200 ${
+                    value.preset === p.id ? "bg-teal-50 font-semibold text-teal-700" : "text-slate-700 hover:bg-slate-50"
+                  }`}
+                >
+                  {p.label}
+                </button>
+              ),
+            )}
+          </div>
+          <DayPicker
+            mode="range"
+            numberOfMonths={2}
+            defaultMonth={addMonths(value.to, -1)}
+            selected={draft ?? value}
+            disabled={{ after: new Date() }}
+            onSelect={(_, day) => {
+              if (!draft?.from) {
+                setDraft({ from: day, to: undefined })
+                return
+              }
+              const [from, to] = day < draft.from ? [day, draft.from] : [draft.from, day]
+              choose({ preset: "custom", from, to })
+            }}
+            style={{ "--rdp-accent-color": "#0d9488", "--rdp-accent-background-color": "#ccfbf1" } as React.CSSProperties}
+          />
+        </Popover.Content>
+      </Popover.Portal>
+    </Popover.Root>
+  )
+}
+
 const MetricCard = ({
   title,
   value,
   isLoading,
   icon: Icon,
   trend,
-  trendUp,
+  note,
 }: {
   title: string
   value?: string
   isLoading: boolean
   icon: React.ComponentType<{ className?: string }>
-  trend?: string
-  trendUp?: boolean
+  // Percentage change vs the previous period, shown as an up/down indicator
+  trend?: number | null
+  note?: string
 }) => (
   <div className="group relative overflow-hidden rounded-2xl bg-white p-6 shadow-sm border border-teal-100 hover:shadow-lg hover:border-teal-200 transition-all duration-300">
     <div className="absolute inset-0 bg-gradient-to-br from-teal-50/50 to-cyan-50/30 opacity-0 group-hover:opacity-100 transition-opacity duration-300" />
@@ -464,13 +789,14 @@ const MetricCard = ({
         ) : (
           <div className="space-y-1">
             <p className="text-3xl font-bold text-slate-900">{value}</p>
-            {trend && (
-              <div className={`flex items-center space-x-1 text-sm ${trendUp ? "text-emerald-600" : "text-red-500"}`}>
-                <TrendingUp className={`w-4 h-4 ${!trendUp && "rotate-180"}`} />
-                <span className="font-medium">{trend}</span>
-                <span className="text-slate-500">vs last month</span>
+            {trend != null && (
+              <div className={`flex items-center space-x-1 text-sm ${trend >= 0 ? "text-emerald-600" : "text-red-500"}`}>
+                <TrendingUp className={`w-4 h-4 ${trend < 0 && "rotate-180"}`} />
+                <span className="font-medium">{formatChange(trend)}</span>
+                <span className="text-slate-500">vs previous period</span>
               </div>
             )}
+            {note && <p className="text-sm text-slate-500">{note}</p>}
           </div>
         )}
       </div>
@@ -501,7 +827,7 @@ const ChartCard = ({ chartData, isLoading }: { chartData: ChartData[]; isLoading
             <div className="h-4 bg-slate-200 rounded animate-pulse w-1/2"></div>
           </div>
         </div>
-      ) : chartData.length > 0 ? (
+      ) : chartData.some((d) => d.Orders > 0) ? (
         <ResponsiveContainer width="100%" height="100%">
           <ComposedChart data={chartData} margin={{ top: 20, right: 30, left: 0, bottom: 20 }}>
             <defs>
@@ -511,7 +837,14 @@ const ChartCard = ({ chartData, isLoading }: { chartData: ChartData[]; isLoading
               </linearGradient>
             </defs>
             <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" strokeOpacity={0.5} />
-            <XAxis dataKey="date" fontSize={12} tickMargin={10} stroke="#000000" tick={{ fill: "#000000" }} />
+            <XAxis
+              dataKey="date"
+              tickFormatter={formatBucketLabel}
+              fontSize={12}
+              tickMargin={10}
+              stroke="#000000"
+              tick={{ fill: "#000000" }}
+            />
             <YAxis allowDecimals={false} fontSize={12} tickMargin={10} stroke="#000000" tick={{ fill: "#000000" }} />
             <Tooltip
               contentStyle={{
@@ -521,6 +854,7 @@ const ChartCard = ({ chartData, isLoading }: { chartData: ChartData[]; isLoading
                 boxShadow: "0 10px 15px -3px rgba(0, 0, 0, 0.1)",
               }}
               labelStyle={{ color: "#000000" }}
+              labelFormatter={(label) => formatBucketLabel(String(label))}
             />
             <Area
               name="Orders"
@@ -544,7 +878,15 @@ const ChartCard = ({ chartData, isLoading }: { chartData: ChartData[]; isLoading
   </div>
 )
 
-const AvgRevenueCard = ({ avgRevenueData, isLoading }: { avgRevenueData: AvgRevenueData[]; isLoading: boolean }) => (
+const AvgRevenueCard = ({
+  avgRevenueData,
+  currency,
+  isLoading,
+}: {
+  avgRevenueData: AvgRevenueData[]
+  currency: string
+  isLoading: boolean
+}) => (
   <div className="relative overflow-hidden rounded-2xl bg-white p-8 shadow-sm border border-teal-100">
     <div className="absolute top-0 left-0 right-0 h-1 bg-gradient-to-r from-teal-500 to-cyan-500" />
 
@@ -567,11 +909,18 @@ const AvgRevenueCard = ({ avgRevenueData, isLoading }: { avgRevenueData: AvgReve
             <div className="h-4 bg-slate-200 rounded animate-pulse w-1/2"></div>
           </div>
         </div>
-      ) : avgRevenueData.length > 0 ? (
+      ) : avgRevenueData.some((d) => (d.orderCount ?? 0) > 0) ? (
         <ResponsiveContainer width="100%" height="100%">
           <ComposedChart data={avgRevenueData} margin={{ top: 20, right: 30, left: 0, bottom: 20 }}>
             <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" strokeOpacity={0.5} />
-            <XAxis dataKey="date" fontSize={12} tickMargin={10} stroke="#000000" tick={{ fill: "#000000" }} />
+            <XAxis
+              dataKey="date"
+              tickFormatter={formatBucketLabel}
+              fontSize={12}
+              tickMargin={10}
+              stroke="#000000"
+              tick={{ fill: "#000000" }}
+            />
             <YAxis
               yAxisId="left"
               allowDecimals={true}
@@ -597,8 +946,9 @@ const AvgRevenueCard = ({ avgRevenueData, isLoading }: { avgRevenueData: AvgReve
                 boxShadow: "0 10px 15px -3px rgba(0, 0, 0, 0.1)",
               }}
               labelStyle={{ color: "#000000" }}
+              labelFormatter={(label) => formatBucketLabel(String(label))}
               formatter={(value, name) => {
-                if (name === "Avg Revenue") return [`₹${Number(value).toLocaleString("en-IN")}`, name]
+                if (name === "Avg Revenue") return [formatMoney(Number(value), currency), name]
                 if (name === "Orders") return [Number(value).toLocaleString("en-IN"), name]
                 return [String(value), name]
               }}
@@ -620,9 +970,15 @@ const AvgRevenueCard = ({ avgRevenueData, isLoading }: { avgRevenueData: AvgReve
 
 const TopCustomersCard = ({
   topCustomers,
+  currency,
   isLoading,
   onSelectCustomer,
-}: { topCustomers: TopCustomer[]; isLoading: boolean; onSelectCustomer?: (c: TopCustomer) => void }) => (
+}: {
+  topCustomers: TopCustomer[]
+  currency: string
+  isLoading: boolean
+  onSelectCustomer?: (c: TopCustomer) => void
+}) => (
   <div className="relative overflow-hidden rounded-2xl bg-white p-6 shadow-sm border border-teal-100">
     <div className="absolute top-0 left-0 right-0 h-1 bg-gradient-to-r from-teal-500 to-cyan-500" />
 
@@ -677,7 +1033,7 @@ const TopCustomersCard = ({
               <p className="text-xs text-slate-500 truncate">{customer.email}</p>
             </div>
             <div className="text-right">
-              <p className="text-sm font-bold text-slate-900">₹{customer.totalSpend.toLocaleString("en-IN")}</p>
+              <p className="text-sm font-bold text-slate-900">{formatMoney(customer.totalSpend, currency)}</p>
               <p className="text-xs text-slate-500">total spend</p>
             </div>
           </div>
@@ -752,9 +1108,7 @@ const TopOrdersCard = ({
               </div>
             </div>
             <div className="text-right">
-              <p className="text-sm font-bold text-slate-900">
-                ₹{o.total.toLocaleString("en-IN")}
-              </p>
+              <p className="text-sm font-bold text-slate-900">{formatMoney(o.total, o.currency)}</p>
               <p className="text-xs text-slate-500">{o.date ? new Date(o.date).toLocaleDateString() : "No date"}</p>
             </div>
           </li>
@@ -770,6 +1124,153 @@ const TopOrdersCard = ({
   </div>
 )
 
+const TopProductsCard = ({
+  topProducts,
+  currency,
+  isLoading,
+}: {
+  topProducts: TopProduct[]
+  currency: string
+  isLoading: boolean
+}) => (
+  <div className="relative overflow-hidden rounded-2xl bg-white p-6 shadow-sm border border-teal-100">
+    <div className="absolute top-0 left-0 right-0 h-1 bg-gradient-to-r from-teal-500 to-cyan-500" />
+
+    <div className="flex items-center justify-between mb-6">
+      <div>
+        <h2 className="text-xl font-bold text-slate-900">Top Products</h2>
+        <p className="text-slate-600 text-sm mt-1">Ranked by revenue in the selected range</p>
+      </div>
+      <div className="p-2 bg-gradient-to-r from-teal-50 to-cyan-50 rounded-lg">
+        <Package className="w-5 h-5 text-teal-600" />
+      </div>
+    </div>
+
+    {isLoading ? (
+      <div className="space-y-4">
+        {[...Array(5)].map((_, i) => (
+          <div key={i} className="flex items-center justify-between p-3 rounded-lg bg-slate-50 animate-pulse">
+            <div className="h-4 w-32 bg-slate-200 rounded" />
+            <div className="h-4 w-20 bg-slate-200 rounded" />
+          </div>
+        ))}
+      </div>
+    ) : topProducts.length > 0 ? (
+      <ul className="space-y-3">
+        {topProducts.map((p) => (
+          <li
+            key={p.productId ?? `title:${p.title}`}
+            className="group flex items-center justify-between p-3 rounded-xl hover:bg-gradient-to-r hover:from-teal-50 hover:to-cyan-50 transition-all duration-200"
+          >
+            <div className="min-w-0">
+              <p className="text-sm font-semibold text-slate-900 truncate">{p.title}</p>
+              <p className="text-xs text-slate-500 truncate">
+                {[p.vendor, p.productType].filter(Boolean).join(" • ") || "Uncategorized"}
+              </p>
+            </div>
+            <div className="text-right">
+              <p className="text-sm font-bold text-slate-900">{formatMoney(p.revenue, currency)}</p>
+              <p className="text-xs text-slate-500">
+                {p.units.toLocaleString("en-IN")} units • {p.buyers.toLocaleString("en-IN")} buyers
+              </p>
+            </div>
+          </li>
+        ))}
+      </ul>
+    ) : (
+      <div className="flex flex-col items-center justify-center py-12 text-slate-500">
+        <Package className="w-12 h-12 mb-4 text-slate-300" />
+        <p className="text-lg font-medium">No product sales</p>
+        <p className="text-sm text-center">Product sales will appear here once orders are synced</p>
+      </div>
+    )}
+  </div>
+)
+
+const AllStoresOverview = ({
+  stores,
+  aggregate,
+  isLoading,
+  onSelectStore,
+}: {
+  stores: StoreSummary[]
+  aggregate: StoresAggregate | null
+  isLoading: boolean
+  onSelectStore: (id: string) => void
+}) => (
+  <div className="space-y-8">
+    <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+      <MetricCard title="Stores" value={aggregate?.stores.toString()} isLoading={isLoading} icon={Store} />
+      <MetricCard title="Total Orders" value={aggregate?.orders.toLocaleString("en-IN")} isLoading={isLoading} icon={ShoppingCart} />
+      <MetricCard
+        title="Total Customers"
+        value={aggregate?.customers.toLocaleString("en-IN")}
+        isLoading={isLoading}
+        icon={Users}
+      />
+      <MetricCard
+        title="Total Revenue"
+        // Currencies are listed side by side; amounts in different currencies are never added together
+        value={
+          aggregate
+            ? Object.entries(aggregate.revenueByCurrency)
+                .map(([code, amount]) => formatMoney(amount, code))
+                .join(" + ") || formatMoney(0, "INR")
+            : ""
+        }
+        isLoading={isLoading}
+        icon={DollarSign}
+      />
+    </div>
+
+    <div className="relative overflow-hidden rounded-2xl bg-white p-6 shadow-sm border border-teal-100">
+      <div className="absolute top-0 left-0 right-0 h-1 bg-gradient-to-r from-teal-500 to-cyan-500" />
+      <div className="mb-6">
+        <h2 className="text-xl font-bold text-slate-900">Your Stores</h2>
+        <p className="text-slate-600 text-sm mt-1">Select a store to open its dashboard</p>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-500 border-b">
+              <th className="py-2 pr-4 font-medium">Store</th>
+              <th className="py-2 pr-4 font-medium text-right">Revenue</th>
+              <th className="py-2 pr-4 font-medium text-right">Orders</th>
+              <th className="py-2 pr-4 font-medium text-right">Customers</th>
+              <th className="py-2 pr-4 font-medium text-right">Products</th>
+              <th className="py-2 font-medium">Last sync</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {stores.map((s) => (
+              <tr
+                key={s.id}
+                className="cursor-pointer hover:bg-gradient-to-r hover:from-teal-50 hover:to-cyan-50"
+                onClick={() => onSelectStore(s.id)}
+              >
+                <td className="py-3 pr-4 font-semibold text-slate-900">{s.shop}</td>
+                <td className="py-3 pr-4 text-right text-slate-900">
+                  {Object.entries(s.revenueByCurrency)
+                    .map(([code, amount]) => formatMoney(amount, code))
+                    .join(" + ") || formatMoney(0, s.currency)}
+                </td>
+                <td className="py-3 pr-4 text-right">{s.counts.orders.toLocaleString("en-IN")}</td>
+                <td className="py-3 pr-4 text-right">{s.counts.customers.toLocaleString("en-IN")}</td>
+                <td className="py-3 pr-4 text-right">{s.counts.products.toLocaleString("en-IN")}</td>
+                <td className="py-3 text-slate-500">
+                  {s.lastSync
+                    ? `${s.lastSync.status}${s.lastSync.finishedAt ? ` • ${new Date(s.lastSync.finishedAt).toLocaleString()}` : ""}`
+                    : "Never"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  </div>
+)
+
 function CustomerOrdersModal({
   customerName,
   orders,
@@ -811,7 +1312,7 @@ function CustomerOrdersModal({
                     <p className="text-sm font-medium text-slate-900">{o.orderNumber || o.id}</p>
                     <p className="text-xs text-slate-500">{o.date ? new Date(o.date).toLocaleString() : "No date"}</p>
                   </div>
-                  <div className="text-sm font-semibold text-slate-900">₹{o.total.toLocaleString("en-IN")}</div>
+                  <div className="text-sm font-semibold text-slate-900">{formatMoney(o.total, o.currency)}</div>
                 </li>
               ))}
             </ul>
@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SyncJob } from '@prisma/client';
+
+const mocks = vi.hoisted(() => ({
+  graphql: vi.fn(),
+  findJob: vi.fn(),
+  updateJob: vi.fn(),
+  updateManyJobs: vi.fn(),
+  enqueueJob: vi.fn(),
+  setSyncCursor: vi.fn(),
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  default: {
+    syncJob: { findUnique: mocks.findJob, update: mocks.updateJob, updateMany: mocks.updateManyJobs },
+  },
+  withRetry: <T>(fn: () => Promise<T>) => fn(),
+}));
+vi.mock('@/lib/shopify-client', () => ({
+  ShopifyClient: { forStore: () => ({ shop: 'demo.myshopify.com', graphql: mocks.graphql }) },
+}));
+vi.mock('@/lib/queue', () => ({ enqueueJob: mocks.enqueueJob }));
+vi.mock('@/lib/ingest', () => ({ upsertCustomers: vi.fn(), upsertOrders: vi.fn(), upsertProducts: vi.fn() }));
+vi.mock('@/lib/sync-cursor', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/sync-cursor')>()),
+  getSyncCursor: vi.fn(),
+  setSyncCursor: mocks.setSyncCursor,
+}));
+
+import { advanceBulkSync, pollBulkSync, runBulkSync } from '@/lib/bulk-sync';
+
+const STORE = { id: 'store-1', shop: 'demo.myshopify.com', accessToken: 'token' };
+const OPERATION_ID = 'gid://shopify/BulkOperation/1';
+
+function syncJob(overrides: Partial<SyncJob> = {}): SyncJob {
+  return {
+    id: 'job-1',
+    kind: 'historical',
+    trigger: 'manual',
+    status: 'running',
+    customersSynced: 0,
+    ordersSynced: 0,
+    productsSynced: 0,
+    error: null,
+    createdAt: new Date(),
+    startedAt: new Date(),
+    finishedAt: null,
+    bulkOperationId: null,
+    bulkResource: null,
+    bulkClaimedAt: null,
+    storeId: STORE.id,
+    ...overrides,
+  };
+}
+
+function operation(status: string) {
+  return {
+    node: { id: OPERATION_ID, status, errorCode: null, objectCount: '0', url: null, createdAt: '2024-05-01T12:00:00Z' },
+  };
+}
+
+beforeEach(() => {
+  mocks.updateJob.mockImplementation(async ({ data }) => syncJob(data));
+  mocks.updateManyJobs.mockResolvedValue({ count: 1 });
+});
+
+afterEach(() => {
+  vi.resetAllMocks();
+});
+
+describe('runBulkSync', () => {
+  it('submits the customers stage and schedules a poll instead of waiting', async () => {
+    mocks.graphql.mockResolvedValue({ bulkOperationRunQuery: { bulkOperation: { id: OPERATION_ID }, userErrors: [] } });
+    const job = await runBulkSync(STORE, syncJob());
+    expect(job.bulkResource).toBe('customers');
+    expect(mocks.enqueueJob).toHaveBeenCalledWith('sync.bulk-poll', { syncJobId: 'job-1' }, expect.anything());
+  });
+
+  it('resumes the recorded operation rather than starting a new export', async () => {
+    const running = syncJob({ bulkOperationId: OPERATION_ID, bulkResource: 'products' });
+    mocks.findJob.mockResolvedValue(running);
+    mocks.graphql.mockResolvedValue(operation('RUNNING'));
+
+    const job = await runBulkSync(STORE, running);
+    expect(job.bulkResource).toBe('products');
+    expect(mocks.graphql).toHaveBeenCalledTimes(1);
+    expect(mocks.graphql).toHaveBeenCalledWith(expect.stringContaining('BulkOperation'), { id: OPERATION_ID });
+    expect(mocks.enqueueJob).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('advanceBulkSync', () => {
+  it('leaves an operation alone while another worker holds a fresh claim', async () => {
+    mocks.findJob.mockResolvedValue(
+      syncJob({ bulkOperationId: OPERATION_ID, bulkResource: 'orders', bulkClaimedAt: new Date() })
+    );
+    await advanceBulkSync(STORE, 'job-1');
+    expect(mocks.graphql).not.toHaveBeenCalled();
+    expect(mocks.updateManyJobs).not.toHaveBeenCalled();
+  });
+
+  it('reclaims an operation whose claim has lapsed and completes the job', async () => {
+    mocks.findJob.mockResolvedValue(
+      syncJob({
+        bulkOperationId: OPERATION_ID,
+        bulkResource: 'orders',
+        bulkClaimedAt: new Date(Date.now() - 60 * 60 * 1000),
+      })
+    );
+    mocks.graphql.mockResolvedValue(operation('COMPLETED'));
+
+    const job = await advanceBulkSync(STORE, 'job-1');
+    expect(mocks.updateManyJobs).toHaveBeenCalled();
+    expect(job?.status).toBe('succeeded');
+    expect(job?.bulkOperationId).toBeNull();
+    // The watermark comes from when the export started, less the safety margin
+    expect(mocks.setSyncCursor).toHaveBeenCalledWith(STORE.id, 'orders', new Date('2024-05-01T11:55:00Z'));
+  });
+});
+
+describe('pollBulkSync', () => {
+  it('stops scheduling polls once the job has finished', async () => {
+    mocks.findJob.mockResolvedValue(syncJob({ bulkOperationId: OPERATION_ID, bulkResource: 'orders' }));
+    mocks.graphql.mockResolvedValue(operation('COMPLETED'));
+    await pollBulkSync(STORE, 'job-1');
+    expect(mocks.enqueueJob).not.toHaveBeenCalled();
+  });
+
+  it('schedules another poll while the operation is still running', async () => {
+    mocks.findJob.mockResolvedValue(syncJob({ bulkOperationId: OPERATION_ID, bulkResource: 'orders' }));
+    mocks.graphql.mockResolvedValue(operation('RUNNING'));
+    await pollBulkSync(STORE, 'job-1');
+    expect(mocks.enqueueJob).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,467 @@
+import type { SyncJob } from '@prisma/client';
+import prisma, { withRetry } from '@/lib/prisma';
+import {
+  upsertCustomers,
+  upsertOrders,
+  upsertProducts,
+  type ShopifyCustomer,
+  type ShopifyOrder,
+  type ShopifyProduct,
+} from '@/lib/ingest';
+import { enqueueJob } from '@/lib/queue';
+import { ShopifyClient } from '@/lib/shopify-client';
+import { cursorForSyncStartedAt, getSyncCursor, setSyncCursor } from '@/lib/sync-cursor';
+import type { SyncResource, SyncStore } from '@/lib/sync';
+
+// Backfills through GraphQL bulk operations instead of REST pagination, for stores too large to
+// page through within a single invocation. Shopify runs one bulk query per shop at a time, so a
+// job exports customers, products and orders as consecutive stages. Each stage's operation id is
+// kept on the SyncJob; when it finishes (seen by a short poll job or the `bulk_operations/finish`
+// webhook) the JSONL result is streamed and ingested in chunks, then the next stage is submitted.
+// Nothing waits on Shopify in between, so serverless workers are never held open by an export.
+
+const BULK_STAGES: SyncResource[] = ['customers', 'products', 'orders'];
+const CHUNK_SIZE = 250;
+// Delay between `sync.bulk-poll` queue jobs while an operation runs
+const POLL_INTERVAL_MS = 30 * 1000;
+// A claim on a finished operation older than this is assumed to belong to a killed worker
+const CLAIM_LEASE_MS = 15 * 60 * 1000;
+
+const RUN_BULK_QUERY = `
+  mutation RunBulkQuery($query: String!) {
+    bulkOperationRunQuery(query: $query) {
+      bulkOperation { id status }
+      userErrors { field message }
+    }
+  }
+`;
+
+const BULK_OPERATION_QUERY = `
+  query BulkOperation($id: ID!) {
+    node(id: $id) {
+      ... on BulkOperation { id status errorCode objectCount url createdAt }
+    }
+  }
+`;
+
+// Nested connections are exported as separate JSONL lines pointing back via `__parentId`
+const BULK_QUERIES: Record<SyncResource, (filter: string) => string> = {
+  customers: (filter) => `{
+    customers${filter} { edges { node { id email firstName lastName phone updatedAt } } }
+  }`,
+  products: (filter) => `{
+    products${filter} {
+      edges { node {
+        id title handle status vendor productType tags updatedAt
+        variants { edges { node { id price compareAtPrice } } }
+      } }
+    }
+  }`,
+  orders: (filter) => `{
+    orders${filter} {
+      edges { node {
+        id name email currencyCode presentmentCurrencyCode processedAt updatedAt displayFinancialStatus displayFulfillmentStatus
+        cancelledAt cancelReason test tags sourceName
+        totalPriceSet { shopMoney { amount } presentmentMoney { amount } }
+        subtotalPriceSet { shopMoney { amount } }
+        totalTaxSet { shopMoney { amount } }
+        totalDiscountsSet { shopMoney { amount } }
+        totalShippingPriceSet { shopMoney { amount } }
+        totalRefundedSet { shopMoney { amount } }
+        customerJourneySummary { firstVisit { landingPage referrerUrl } }
+        customer { id }
+        lineItems { edges { node {
+          id title quantity
+          originalUnitPriceSet { shopMoney { amount } }
+          product { id }
+          variant { id }
+        } } }
+      } }
+    }
+  }`,
+};
+
+type BulkOperation = {
+  id: string;
+  status: string;
+  errorCode: string | null;
+  objectCount: string;
+  url: string | null;
+  createdAt: string;
+};
+
+type BulkNode = { id: string; __parentId?: string; updatedAt?: string | null };
+type BulkRecord = { node: BulkNode; children: BulkNode[] };
+
+type Money = { shopMoney: { amount: string }; presentmentMoney?: { amount: string } } | null;
+
+type BulkCustomer = BulkNode & {
+  email?: string | null;
+  firstName?: string | null;
+  lastName?: string | null;
+  phone?: string | null;
+};
+
+type BulkProduct = BulkNode & {
+  title?: string | null;
+  handle?: string | null;
+  status?: string | null;
+  vendor?: string | null;
+  productType?: string | null;
+  tags?: string[] | null;
+};
+
+type BulkVariant = BulkNode & { price?: string | null; compareAtPrice?: string | null };
+
+type BulkOrder = BulkNode & {
+  name?: string | null;
+  email?: string | null;
+  currencyCode?: string | null;
+  presentmentCurrencyCode?: string | null;
+  processedAt?: string | null;
+  displayFinancialStatus?: string | null;
+  displayFulfillmentStatus?: string | null;
+  cancelledAt?: string | null;
+  cancelReason?: string | null;
+  test?: boolean | null;
+  tags?: string[] | null;
+  sourceName?: string | null;
+  totalPriceSet?: Money;
+  subtotalPriceSet?: Money;
+  totalTaxSet?: Money;
+  totalDiscountsSet?: Money;
+  totalShippingPriceSet?: Money;
+  totalRefundedSet?: Money;
+  customerJourneySummary?: { firstVisit?: { landingPage?: string | null; referrerUrl?: string | null } | null } | null;
+  customer?: { id: string } | null;
+};
+
+type BulkLineItem = BulkNode & {
+  title?: string | null;
+  quantity?: number | null;
+  originalUnitPriceSet?: Money;
+  product?: { id: string } | null;
+  variant?: { id: string } | null;
+};
+
+// gid://shopify/Order/123 -> "123", matching the REST ids already stored as shopifyId
+function legacyId(gid: string) {
+  return gid.slice(gid.lastIndexOf('/') + 1);
+}
+
+// GraphQL enums (PAID, ACTIVE) are the upper-cased REST values, except fulfillment status
+function toRestStatus(value?: string | null) {
+  return value ? value.toLowerCase() : null;
+}
+
+function toRestFulfillmentStatus(value?: string | null) {
+  if (!value || value === 'UNFULFILLED') return null;
+  if (value === 'PARTIALLY_FULFILLED') return 'partial';
+  return value.toLowerCase();
+}
+
+function toCustomer({ node }: BulkRecord): ShopifyCustomer {
+  const c = node as BulkCustomer;
+  return {
+    id: legacyId(c.id),
+    email: c.email,
+    first_name: c.firstName,
+    last_name: c.lastName,
+    phone: c.phone,
+    updated_at: c.updatedAt,
+  };
+}
+
+function toProduct({ node, children }: BulkRecord): ShopifyProduct {
+  const p = node as BulkProduct;
+  return {
+    id: legacyId(p.id),
+    title: p.title,
+    handle: p.handle,
+    status: toRestStatus(p.status),
+    vendor: p.vendor,
+    product_type: p.productType,
+    tags: p.tags?.length ? p.tags.join(', ') : null,
+    variants: (children as BulkVariant[]).map((v) => ({
+      id: legacyId(v.id),
+      price: v.price,
+      compare_at_price: v.compareAtPrice,
+    })),
+    updated_at: p.updatedAt,
+  };
+}
+
+function toOrder({ node, children }: BulkRecord): ShopifyOrder {
+  const o = node as BulkOrder;
+  const firstVisit = o.customerJourneySummary?.firstVisit;
+  return {
+    id: legacyId(o.id),
+    name: o.name,
+    email: o.email,
+    total_price: o.totalPriceSet?.shopMoney.amount,
+    total_price_set: { presentment_money: { amount: o.totalPriceSet?.presentmentMoney?.amount } },
+    subtotal_price: o.subtotalPriceSet?.shopMoney.amount,
+    total_tax: o.totalTaxSet?.shopMoney.amount,
+    total_discounts: o.totalDiscountsSet?.shopMoney.amount,
+    total_shipping_price_set: { shop_money: { amount: o.totalShippingPriceSet?.shopMoney.amount } },
+    currency: o.currencyCode,
+    presentment_currency: o.presentmentCurrencyCode,
+    financial_status: toRestStatus(o.displayFinancialStatus),
+    fulfillment_status: toRestFulfillmentStatus(o.displayFulfillmentStatus),
+    cancelled_at: o.cancelledAt,
+    cancel_reason: toRestStatus(o.cancelReason),
+    test: o.test,
+    tags: o.tags?.length ? o.tags.join(', ') : null,
+    source_name: o.sourceName,
+    landing_site: firstVisit?.landingPage,
+    referring_site: firstVisit?.referrerUrl,
+    processed_at: o.processedAt,
+    updated_at: o.updatedAt,
+    customer: o.customer ? { id: legacyId(o.customer.id) } : null,
+    // GraphQL exposes the refunded total directly; present it as one successful refund transaction
+    refunds: [
+      {
+        id: `${legacyId(o.id)}-refunds`,
+        transactions: [{ kind: 'refund', status: 'success', amount: o.totalRefundedSet?.shopMoney.amount ?? 0 }],
+      },
+    ],
+    line_items: (children as BulkLineItem[]).map((li) => ({
+      id: legacyId(li.id),
+      title: li.title,
+      quantity: li.quantity,
+      price: li.originalUnitPriceSet?.shopMoney.amount,
+      product_id: li.product ? legacyId(li.product.id) : null,
+      variant_id: li.variant ? legacyId(li.variant.id) : null,
+    })),
+  };
+}
+
+const INGESTERS: Record<SyncResource, (storeId: string, records: BulkRecord[]) => Promise<unknown>> = {
+  customers: (storeId, records) => upsertCustomers(storeId, records.map(toCustomer)),
+  products: (storeId, records) => upsertProducts(storeId, records.map(toProduct)),
+  orders: (storeId, records) => upsertOrders(storeId, records.map(toOrder)),
+};
+
+// Streams a JSONL result file line by line so large exports are never held in memory
+async function* readJsonLines(url: string) {
+  const response = await fetch(url, { cache: 'no-store' });
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to download bulk operation result (${response.status}).`);
+  }
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (line) yield JSON.parse(line) as BulkNode;
+    }
+  }
+  if (buffer.trim()) yield JSON.parse(buffer) as BulkNode;
+}
+
+// Re-nests child lines under their parent. Shopify writes a parent's children directly after it,
+// so a parent is complete as soon as the next parent line appears.
+async function* readRecords(url: string) {
+  let current: BulkRecord | null = null;
+  for await (const line of readJsonLines(url)) {
+    if (line.__parentId) {
+      if (current && line.__parentId === current.node.id) {
+        current.children.push(line);
+      } else {
+        console.warn(`[SYNC] Skipping bulk line ${line.id}: parent ${line.__parentId} is not the current record.`);
+      }
+      continue;
+    }
+    if (current) yield current;
+    current = { node: line, children: [] };
+  }
+  if (current) yield current;
+}
+
+async function ingestBulkResult(storeId: string, resource: SyncResource, url: string) {
+  let count = 0;
+  let chunk: BulkRecord[] = [];
+
+  const flush = async () => {
+    if (chunk.length === 0) return;
+    await INGESTERS[resource](storeId, chunk);
+    count += chunk.length;
+    console.log(`[SYNC] Bulk ${resource}: ingested ${count} so far.`);
+    chunk = [];
+  };
+
+  for await (const record of readRecords(url)) {
+    chunk.push(record);
+    if (chunk.length >= CHUNK_SIZE) await flush();
+  }
+  await flush();
+
+  return count;
+}
+
+async function getBulkOperation(client: ShopifyClient, operationId: string) {
+  const { node } = await client.graphql<{ node: BulkOperation | null }>(BULK_OPERATION_QUERY, { id: operationId });
+  return node;
+}
+
+// Submits the bulk export for one resource and records it on the job. Incremental jobs export
+// only records updated since the resource's stored watermark.
+async function submitBulkStage(
+  client: ShopifyClient,
+  storeId: string,
+  jobId: string,
+  resource: SyncResource,
+  incremental: boolean,
+  data: Record<string, number> = {}
+) {
+  const since = incremental ? await getSyncCursor(storeId, resource) : null;
+  const filter = since ? `(query: "updated_at:>='${since.toISOString()}'")` : '';
+  const { bulkOperationRunQuery: result } = await client.graphql<{
+    bulkOperationRunQuery: { bulkOperation: { id: string } | null; userErrors: { message: string }[] };
+  }>(RUN_BULK_QUERY, { query: BULK_QUERIES[resource](filter) });
+
+  if (!result.bulkOperation) {
+    throw new Error(`Could not start bulk export of ${resource}: ${result.userErrors.map((e) => e.message).join('; ')}`);
+  }
+  console.log(`[SYNC] Started bulk export of ${resource} for ${client.shop} (${result.bulkOperation.id}).`);
+
+  return withRetry(
+    () =>
+      prisma.syncJob.update({
+        where: { id: jobId },
+        data: { ...data, bulkOperationId: result.bulkOperation!.id, bulkResource: resource, bulkClaimedAt: null },
+      }),
+    'syncJob.update(bulk)'
+  );
+}
+
+// Checks on a running bulk job after a delay; handled by the `sync.bulk-poll` job in jobs.ts
+export function enqueueBulkPoll(storeId: string, syncJobId: string) {
+  return enqueueJob(
+    'sync.bulk-poll',
+    { syncJobId },
+    { storeId, runAt: new Date(Date.now() + POLL_INTERVAL_MS), maxAttempts: 3 }
+  );
+}
+
+// Starts a bulk job, or resumes one an earlier attempt left behind. An operation still recorded on
+// the job may be in flight, and Shopify allows one per shop, so it is advanced rather than
+// replaced; a stage that failed is exported again. Returns once the stage is submitted or checked.
+export async function runBulkSync(store: SyncStore, job: SyncJob) {
+  const current = job.bulkOperationId
+    ? await advanceBulkSync(store, job.id)
+    : await submitBulkStage(
+        ShopifyClient.forStore(store),
+        store.id,
+        job.id,
+        (job.bulkResource as SyncResource | null) ?? BULK_STAGES[0],
+        job.kind === 'incremental'
+      );
+  if (current?.status === 'running' && current.bulkOperationId) await enqueueBulkPoll(store.id, job.id);
+  return current ?? job;
+}
+
+// One poll: advances the job and, while its operation is outstanding, queues the next check
+export async function pollBulkSync(store: SyncStore, jobId: string) {
+  const job = await advanceBulkSync(store, jobId);
+  if (job?.status === 'running' && job.bulkOperationId) await enqueueBulkPoll(store.id, jobId);
+  return job;
+}
+
+// Moves a bulk job forward if its current operation has finished: ingests the result, then submits
+// the next stage or completes the job. Safe to call concurrently from poll jobs and the webhook;
+// only the caller that claims the operation processes the result. The operation id stays on the
+// job while it is ingested, so if that worker is killed the claim lapses and a later poll retries.
+export async function advanceBulkSync(store: SyncStore, jobId: string) {
+  const job = await withRetry(() => prisma.syncJob.findUnique({ where: { id: jobId } }), 'syncJob.findUnique');
+  if (!job || job.status !== 'running' || !job.bulkOperationId || !job.bulkResource) return job;
+  const leaseCutoff = new Date(Date.now() - CLAIM_LEASE_MS);
+  if (job.bulkClaimedAt && job.bulkClaimedAt > leaseCutoff) return job;
+
+  const client = ShopifyClient.forStore(store);
+  const operation = await getBulkOperation(client, job.bulkOperationId);
+  if (!operation || ['CREATED', 'RUNNING', 'CANCELING'].includes(operation.status)) return job;
+
+  const { count: claimed } = await withRetry(
+    () =>
+      prisma.syncJob.updateMany({
+        where: {
+          id: jobId,
+          bulkOperationId: operation.id,
+          OR: [{ bulkClaimedAt: null }, { bulkClaimedAt: { lt: leaseCutoff } }],
+        },
+        data: { bulkClaimedAt: new Date() },
+      }),
+    'syncJob.updateMany(claim bulk)'
+  );
+  if (claimed === 0) return job;
+
+  const resource = job.bulkResource as SyncResource;
+  try {
+    if (operation.status !== 'COMPLETED') {
+      const reason = operation.errorCode ? ` (${operation.errorCode})` : '';
+      throw new Error(`Bulk export of ${resource} ${operation.status.toLowerCase()}${reason}`);
+    }
+
+    // No url means the export matched nothing
+    const count = operation.url ? await ingestBulkResult(store.id, resource, operation.url) : 0;
+    // The export reflects the shop as of when Shopify started it; later changes are picked up next time
+    await setSyncCursor(store.id, resource, cursorForSyncStartedAt(new Date(operation.createdAt)));
+    console.log(`[SYNC] Bulk upserted ${count} ${resource}.`);
+
+    const counts = { [`${resource}Synced`]: count };
+    const next = BULK_STAGES[BULK_STAGES.indexOf(resource) + 1];
+    if (next) {
+      return await submitBulkStage(client, store.id, jobId, next, job.kind === 'incremental', counts);
+    }
+
+    console.log(`[SYNC] Bulk sync completed for ${store.shop}`);
+    return await withRetry(
+      () =>
+        prisma.syncJob.update({
+          where: { id: jobId },
+          data: {
+            ...counts,
+            status: 'succeeded',
+            bulkOperationId: null,
+            bulkResource: null,
+            bulkClaimedAt: null,
+            finishedAt: new Date(),
+          },
+        }),
+      'syncJob.update(succeeded)'
+    );
+  } catch (error) {
+    console.error(`[SYNC] Bulk sync failed for ${store.shop}:`, error);
+    const message = error instanceof Error ? error.message : String(error);
+    return withRetry(
+      () =>
+        prisma.syncJob.update({
+          where: { id: jobId },
+          data: { status: 'failed', error: message, bulkOperationId: null, bulkClaimedAt: null, finishedAt: new Date() },
+        }),
+      'syncJob.update(failed)'
+    );
+  }
+}
+
+// `bulk_operations/finish` webhook: advances whichever job owns the finished operation
+export async function handleBulkOperationFinish(store: SyncStore, payload: unknown) {
+  const { admin_graphql_api_id: operationId } = payload as { admin_graphql_api_id: string };
+  const job = await withRetry(
+    () =>
+      prisma.syncJob.findFirst({
+        where: { storeId: store.id, bulkOperationId: operationId, status: 'running' },
+        select: { id: true },
+      }),
+    'syncJob.findFirst(bulk)'
+  );
+  // Not one of ours, or already finished
+  if (!job) return;
+  await advanceBulkSync(store, job.id);
+}
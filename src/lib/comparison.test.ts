@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { comparisonDates, comparisonPeriod, percentChange, resolveCompare } from '@/lib/comparison';
+
+describe('comparisonDates', () => {
+  it('takes the same number of days immediately before the range', () => {
+    expect(comparisonDates('2024-03-08', '2024-03-14', 'previous_period')).toEqual({
+      startDate: '2024-03-01',
+      endDate: '2024-03-07',
+    });
+    // Crosses into a leap-year February
+    expect(comparisonDates('2024-03-01', '2024-03-31', 'previous_period')).toEqual({
+      startDate: '2024-01-30',
+      endDate: '2024-02-29',
+    });
+  });
+
+  it('compares a single day with the day before', () => {
+    expect(comparisonDates('2024-01-01', '2024-01-01', 'previous_period')).toEqual({
+      startDate: '2023-12-31',
+      endDate: '2023-12-31',
+    });
+  });
+
+  it('takes the same dates one year earlier', () => {
+    expect(comparisonDates('2024-06-01', '2024-06-30', 'previous_year')).toEqual({
+      startDate: '2023-06-01',
+      endDate: '2023-06-30',
+    });
+  });
+
+  it('maps Feb 29 to Feb 28 of the previous year', () => {
+    expect(comparisonDates('2024-02-29', '2024-02-29', 'previous_year')).toEqual({
+      startDate: '2023-02-28',
+      endDate: '2023-02-28',
+    });
+    expect(comparisonDates('2024-02-01', '2024-02-29', 'previous_year')).toEqual({
+      startDate: '2023-02-01',
+      endDate: '2023-02-28',
+    });
+    expect(comparisonDates('2024-02-29', '2024-03-01', 'previous_year')).toEqual({
+      startDate: '2023-02-28',
+      endDate: '2023-03-01',
+    });
+  });
+});
+
+describe('comparisonPeriod', () => {
+  it("bounds the comparison dates in the store's timezone", () => {
+    expect(comparisonPeriod('2024-03-11', '2024-03-11', 'previous_period', 'America/New_York')).toEqual({
+      compare: 'previous_period',
+      startDate: '2024-03-10',
+      endDate: '2024-03-10',
+      range: { gte: new Date('2024-03-10T05:00:00Z'), lt: new Date('2024-03-11T04:00:00Z') },
+    });
+  });
+});
+
+describe('percentChange', () => {
+  it('rounds to one decimal and has no value against a zero base', () => {
+    expect(percentChange(150, 120)).toBe(25);
+    expect(percentChange(100, 300)).toBe(-66.7);
+    expect(percentChange(-50, -100)).toBe(50);
+    expect(percentChange(10, 0)).toBeNull();
+  });
+});
+
+describe('resolveCompare', () => {
+  it('is off by default and rejects unknown modes', () => {
+    expect(resolveCompare(new URLSearchParams())).toEqual({ ok: true, compare: null });
+    expect(resolveCompare(new URLSearchParams('compare=previous_year'))).toEqual({ ok: true, compare: 'previous_year' });
+    const invalid = resolveCompare(new URLSearchParams('compare=last_week'));
+    expect(invalid.ok).toBe(false);
+    if (!invalid.ok) expect(invalid.response.status).toBe(400);
+  });
+});
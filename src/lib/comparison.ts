@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { zonedDayRange } from '@/lib/timezone';
+
+// Period-over-period comparison (`?compare=`) for ranged insights. The comparison range is
+// derived from the requested startDate/endDate calendar dates:
+//   previous_period  the same number of days immediately before the range
+//   previous_year    the same dates one year earlier (Feb 29 becomes Feb 28)
+
+export const COMPARE_MODES = ['previous_period', 'previous_year'] as const;
+export type CompareMode = (typeof COMPARE_MODES)[number];
+
+export type CompareParam = { ok: true; compare: CompareMode | null } | { ok: false; response: NextResponse };
+
+export function resolveCompare(searchParams: URLSearchParams): CompareParam {
+  const compare = searchParams.get('compare');
+  if (!compare) return { ok: true, compare: null };
+  if (!COMPARE_MODES.includes(compare as CompareMode)) {
+    const error = `compare must be one of: ${COMPARE_MODES.join(', ')}`;
+    return { ok: false, response: NextResponse.json({ error }, { status: 400 }) };
+  }
+  return { ok: true, compare: compare as CompareMode };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDateKey(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+function shiftYear(date: Date) {
+  const shifted = new Date(date);
+  shifted.setUTCFullYear(shifted.getUTCFullYear() - 1);
+  // Feb 29 rolls over to Mar 1 in a non-leap year; step back to Feb 28
+  if (shifted.getUTCDate() !== date.getUTCDate()) shifted.setUTCDate(0);
+  return shifted;
+}
+
+// The comparison range's startDate/endDate (YYYY-MM-DD) for an already validated range
+export function comparisonDates(startDate: string, endDate: string, compare: CompareMode) {
+  const start = new Date(`${startDate.slice(0, 10)}T00:00:00Z`);
+  const end = new Date(`${endDate.slice(0, 10)}T00:00:00Z`);
+  if (compare === 'previous_year') {
+    return { startDate: toDateKey(shiftYear(start)), endDate: toDateKey(shiftYear(end)) };
+  }
+  const days = Math.round((end.getTime() - start.getTime()) / DAY_MS) + 1;
+  return {
+    startDate: toDateKey(new Date(start.getTime() - days * DAY_MS)),
+    endDate: toDateKey(new Date(start.getTime() - DAY_MS)),
+  };
+}
+
+// The comparison period with its filter bounds in the timezone
+export function comparisonPeriod(startDate: string, endDate: string, compare: CompareMode, timeZone: string) {
+  const dates = comparisonDates(startDate, endDate, compare);
+  return { compare, ...dates, range: zonedDayRange(dates.startDate, dates.endDate, timeZone)! };
+}
+
+// Percentage change from the comparison value, or null when it was zero (no meaningful base)
+export function percentChange(current: number, previous: number) {
+  if (previous === 0) return null;
+  return Math.round(((current - previous) / Math.abs(previous)) * 1000) / 10;
+}
@@ -0,0 +1,123 @@
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { orderRevenue, revenueOrderFilter, revenueOrderSql, subtractsRefunds, type RevenueMode } from '@/lib/revenue';
+import type { CurrencyConverter } from '@/lib/fx';
+
+// Customer metrics shared by the customer list and detail routes. Spend follows the revenue mode
+// and is converted into the reporting currency in SQL, so the list can filter, sort and page on it.
+
+// Per customer with at least one counted order: orderCount, totalSpent (reporting currency,
+// rounded to cents), firstOrderAt and lastOrderAt. Optionally limited to one customer.
+export async function customerMetricsSql(
+  storeId: string,
+  mode: RevenueMode,
+  fx: CurrencyConverter,
+  customerId?: string
+): Promise<Prisma.Sql> {
+  const where: Prisma.OrderWhereInput = {
+    storeId,
+    customerId: customerId ?? { not: null },
+    ...revenueOrderFilter(mode),
+  };
+  // Conversion is linear, so each currency's rate is what one unit converts to
+  const currencies = await prisma.order.groupBy({ by: ['currency'], where });
+  const rates = currencies.length
+    ? currencies.map(({ currency }) => Prisma.sql`(${currency}::text, ${fx.convert(1, currency)}::numeric)`)
+    : [Prisma.sql`(NULL::text, NULL::numeric)`];
+  const revenue = subtractsRefunds(mode) ? Prisma.sql`o."totalPrice" - o."totalRefunded"` : Prisma.sql`o."totalPrice"`;
+
+  return Prisma.sql`
+    SELECT o."customerId",
+           COUNT(*)::int AS "orderCount",
+           ROUND(SUM((${revenue}) * r.rate), 2) AS "totalSpent",
+           MIN(o."processedAt") AS "firstOrderAt",
+           MAX(o."processedAt") AS "lastOrderAt"
+    FROM orders o
+    JOIN (VALUES ${Prisma.join(rates)}) AS r(currency, rate) ON r.currency = o.currency
+    WHERE o."storeId" = ${storeId}
+      AND ${customerId ? Prisma.sql`o."customerId" = ${customerId}` : Prisma.sql`o."customerId" IS NOT NULL`}
+      AND ${revenueOrderSql(mode)}
+    GROUP BY o."customerId"`;
+}
+
+type CustomerProfileRow = {
+  id: string;
+  shopifyId: string;
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  phone: string | null;
+  createdAt: Date;
+};
+
+export type CustomerMetricsRow = {
+  orderCount: number;
+  totalSpent: number;
+  firstOrderAt: Date | null;
+  lastOrderAt: Date | null;
+};
+
+export type CustomerRow = CustomerProfileRow & CustomerMetricsRow;
+
+export function serializeCustomerProfile(row: CustomerProfileRow) {
+  return {
+    id: row.id,
+    shopifyId: row.shopifyId,
+    name: [row.firstName, row.lastName].filter(Boolean).join(' ') || 'Unknown Customer',
+    firstName: row.firstName,
+    lastName: row.lastName,
+    email: row.email,
+    phone: row.phone,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+export function serializeCustomerMetrics(row: CustomerMetricsRow) {
+  return {
+    orderCount: row.orderCount,
+    totalSpent: row.totalSpent,
+    averageOrderValue: row.orderCount > 0 ? Math.round((row.totalSpent / row.orderCount) * 100) / 100 : 0,
+    firstOrderAt: row.firstOrderAt ? row.firstOrderAt.toISOString() : null,
+    lastOrderAt: row.lastOrderAt ? row.lastOrderAt.toISOString() : null,
+  };
+}
+
+// A customer's counted orders, newest first, with totals in the reporting currency
+export async function customerOrderHistory(
+  customerId: string,
+  storeId: string,
+  mode: RevenueMode,
+  fx: CurrencyConverter,
+  range?: { gte: Date; lt: Date }
+) {
+  const orders = await prisma.order.findMany({
+    where: {
+      customerId,
+      storeId,
+      ...revenueOrderFilter(mode),
+      ...(range ? { processedAt: range } : {}),
+    },
+    orderBy: { processedAt: 'desc' },
+    select: {
+      id: true,
+      orderNumber: true,
+      processedAt: true,
+      totalPrice: true,
+      totalRefunded: true,
+      currency: true,
+      presentmentCurrency: true,
+      totalPricePresentment: true,
+    },
+  });
+
+  return orders.map((o) => ({
+    id: o.id,
+    orderNumber: o.orderNumber,
+    date: o.processedAt ? o.processedAt.toISOString() : null,
+    total: fx.convert(orderRevenue(o, mode), o.currency),
+    currency: fx.currency,
+    // What the customer was charged, in the currency they checked out in
+    presentmentTotal: o.totalPricePresentment != null ? Number(o.totalPricePresentment) : null,
+    presentmentCurrency: o.presentmentCurrency,
+  }));
+}
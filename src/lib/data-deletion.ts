@@ -0,0 +1,140 @@
+import { Prisma } from '@prisma/client';
+import prisma, { withRetry } from '@/lib/prisma';
+import { ShopifyApiError, ShopifyClient } from '@/lib/shopify-client';
+
+// Store removal and GDPR redaction. Everything store-scoped hangs off Store with
+// onDelete: Cascade, so deleting the Store row removes customers, orders, items, jobs and webhook
+// events.
+
+export async function deleteStoreData(storeId: string) {
+  const { count } = await withRetry(() => prisma.store.deleteMany({ where: { id: storeId } }), 'store.deleteMany');
+  return count > 0;
+}
+
+// shop/redact: erases the store and every webhook event logged for the shop, including those
+// recorded after the store was disconnected, which aren't linked to it.
+export async function redactShop(shop: string, storeId: string | null) {
+  if (storeId) await deleteStoreData(storeId);
+  const { count } = await withRetry(
+    () => prisma.webhookEvent.deleteMany({ where: { shop: { equals: shop, mode: 'insensitive' } } }),
+    'webhookEvent.deleteMany(shop)'
+  );
+  return count;
+}
+
+// Webhook events of a store whose payload is about the customer or one of the orders: the
+// customer's own topics and compliance requests, order topics, and refunds of those orders. Data
+// requests, whose payload is dropped once processed, are matched on the customer in their result.
+function customerWebhookEventsSql(storeId: string, customerShopifyId: string, orderShopifyIds: string[]) {
+  const orderIds = orderShopifyIds.length ? orderShopifyIds : [''];
+  return Prisma.sql`
+    DELETE FROM webhook_events
+    WHERE "storeId" = ${storeId}
+      AND (
+        payload->'customer'->>'id' = ${customerShopifyId}
+        OR (topic = 'customers/data_request' AND result->>'customerId' = ${customerShopifyId})
+        OR (topic IN ('customers/create', 'customers/update') AND payload->>'id' = ${customerShopifyId})
+        OR (topic LIKE 'orders/%' AND payload->>'id' = ANY(${orderIds}))
+        OR (topic = 'refunds/create' AND payload->>'order_id' = ANY(${orderIds}))
+      )`;
+}
+
+// Revokes our access token, which uninstalls the app from the shop. Best-effort: a token that is
+// already revoked (e.g. the merchant uninstalled from Shopify admin) must not block local deletion.
+export async function revokeAccessToken(shop: string, accessToken: string) {
+  try {
+    await new ShopifyClient(shop, accessToken).revokeAccess();
+  } catch (error) {
+    if (error instanceof ShopifyApiError && error.status === 401) return;
+    console.error(`[GDPR] Error revoking access token for ${shop}:`, error);
+  }
+}
+
+// Anonymizes a customer in place, strips the email from their orders and deletes the webhook
+// events still holding their data. The Customer row and order totals are kept so historical
+// revenue and order counts stay correct.
+export async function redactCustomer(storeId: string, customerShopifyId: string, orderShopifyIds: string[] = []) {
+  const customer = await withRetry(
+    () =>
+      prisma.customer.findUnique({
+        where: { shopifyId_storeId: { shopifyId: customerShopifyId, storeId } },
+        select: { id: true },
+      }),
+    'customer.findUnique'
+  );
+
+  const orderFilters = [
+    ...(customer ? [{ customerId: customer.id }] : []),
+    ...(orderShopifyIds.length ? [{ shopifyId: { in: orderShopifyIds } }] : []),
+  ];
+
+  // Events can reference orders the request didn't list, e.g. refunds of the customer's other orders
+  const orderIds = await withRetry(
+    () =>
+      prisma.order.findMany({
+        where: { storeId, OR: orderFilters },
+        select: { shopifyId: true },
+      }),
+    'order.findMany(redact)'
+  );
+
+  const [, orders, events] = await withRetry(
+    () =>
+      prisma.$transaction([
+        prisma.customer.updateMany({
+          where: { storeId, shopifyId: customerShopifyId },
+          data: { email: null, firstName: null, lastName: null, phone: null },
+        }),
+        // An empty OR matches nothing, so unknown customers with no listed orders are a no-op
+        prisma.order.updateMany({
+          where: { storeId, OR: orderFilters },
+          data: { email: null },
+        }),
+        prisma.$executeRaw(
+          customerWebhookEventsSql(storeId, customerShopifyId, [
+            ...new Set([...orderShopifyIds, ...orderIds.map((o) => o.shopifyId)]),
+          ])
+        ),
+      ]),
+    'customer.redact'
+  );
+
+  return { customerFound: !!customer, ordersRedacted: orders.count, eventsDeleted: events };
+}
+
+// Everything we hold about one customer, for customers/data_request.
+export async function collectCustomerData(storeId: string, customerShopifyId: string, orderShopifyIds: string[] = []) {
+  const customer = await withRetry(
+    () =>
+      prisma.customer.findUnique({
+        where: { shopifyId_storeId: { shopifyId: customerShopifyId, storeId } },
+        select: { id: true, shopifyId: true, email: true, firstName: true, lastName: true, phone: true, createdAt: true },
+      }),
+    'customer.findUnique'
+  );
+
+  const orders = await withRetry(
+    () =>
+      prisma.order.findMany({
+        where: {
+          storeId,
+          OR: [
+            ...(customer ? [{ customerId: customer.id }] : []),
+            { shopifyId: { in: orderShopifyIds } },
+          ],
+        },
+        select: {
+          shopifyId: true,
+          orderNumber: true,
+          email: true,
+          totalPrice: true,
+          currency: true,
+          processedAt: true,
+          orderItems: { select: { title: true, quantity: true, price: true } },
+        },
+      }),
+    'order.findMany'
+  );
+
+  return { customer, orders };
+}
@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  findRates: vi.fn(),
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  default: { exchangeRate: { findMany: mocks.findRates } },
+  withRetry: <T>(fn: () => Promise<T>) => fn(),
+}));
+
+import { loadCurrencyConverter, MissingExchangeRateError, resolveReportingCurrency } from '@/lib/fx';
+
+// A USD-based rates file, as npm run fx:load would store it
+const RATES = [
+  { baseCurrency: 'USD', quoteCurrency: 'EUR', rate: '0.8' },
+  { baseCurrency: 'USD', quoteCurrency: 'INR', rate: '80' },
+  { baseCurrency: 'USD', quoteCurrency: 'GBP', rate: '0' },
+];
+
+beforeEach(() => {
+  mocks.findRates.mockResolvedValue(RATES);
+});
+
+afterEach(() => {
+  vi.resetAllMocks();
+});
+
+describe('loadCurrencyConverter', () => {
+  it('converts with a direct rate and its inverse', async () => {
+    const toEur = await loadCurrencyConverter('EUR');
+    expect(toEur.convert(100, 'USD')).toBeCloseTo(80);
+    expect(toEur.convert(100, 'EUR')).toBe(100);
+
+    const toUsd = await loadCurrencyConverter('USD');
+    expect(toUsd.convert(80, 'EUR')).toBeCloseTo(100);
+  });
+
+  it('crosses through a shared currency when there is no pair', async () => {
+    const toInr = await loadCurrencyConverter('INR');
+    // 1 EUR = 1.25 USD = 100 INR
+    expect(toInr.convert(10, 'EUR')).toBeCloseTo(1000);
+  });
+
+  it('uses rates on or before the as-of date', async () => {
+    const asOf = new Date('2024-06-30T23:59:59Z');
+    await loadCurrencyConverter('EUR', asOf);
+    expect(mocks.findRates).toHaveBeenCalledWith(expect.objectContaining({ where: { rateDate: { lte: asOf } } }));
+  });
+
+  it('throws for a currency it has no usable rate for', async () => {
+    const toEur = await loadCurrencyConverter('EUR');
+    expect(() => toEur.convert(10, 'GBP')).toThrow(MissingExchangeRateError);
+    expect(() => toEur.convert(10, 'JPY')).toThrow('No exchange rate from JPY to EUR');
+    // Nothing to convert needs no rate
+    expect(toEur.convert(0, 'JPY')).toBe(0);
+  });
+});
+
+describe('resolveReportingCurrency', () => {
+  it("defaults to the store's currency and validates the requested one", () => {
+    expect(resolveReportingCurrency(new URLSearchParams(), { currency: 'CAD' })).toEqual({ ok: true, currency: 'CAD' });
+    expect(resolveReportingCurrency(new URLSearchParams('currency=eur'), { currency: null })).toEqual({
+      ok: true,
+      currency: 'EUR',
+    });
+    const invalid = resolveReportingCurrency(new URLSearchParams('currency=euro'), { currency: null });
+    expect(invalid.ok).toBe(false);
+    if (!invalid.ok) expect(invalid.response.status).toBe(400);
+  });
+});
@@ -0,0 +1,95 @@
+import { NextResponse } from 'next/server';
+import prisma, { withRetry } from '@/lib/prisma';
+
+// Currency conversion for insights. Order amounts are stored in the shop currency they were
+// placed in; routes convert them into a reporting currency (`?currency=`, defaulting to the
+// store's currency) using rates from the exchange_rates table.
+
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+
+export class MissingExchangeRateError extends Error {
+  constructor(
+    public readonly from: string,
+    public readonly to: string
+  ) {
+    super(`No exchange rate from ${from} to ${to}. Load one with npm run fx:load.`);
+    this.name = 'MissingExchangeRateError';
+  }
+}
+
+export type ReportingCurrencyParam = { ok: true; currency: string } | { ok: false; response: NextResponse };
+
+export function resolveReportingCurrency(
+  searchParams: URLSearchParams,
+  store: { currency: string | null }
+): ReportingCurrencyParam {
+  const requested = searchParams.get('currency');
+  if (!requested) return { ok: true, currency: store.currency || 'USD' };
+  const currency = requested.toUpperCase();
+  if (!CURRENCY_CODE.test(currency)) {
+    const error = 'currency must be a three-letter ISO 4217 code';
+    return { ok: false, response: NextResponse.json({ error }, { status: 400 }) };
+  }
+  return { ok: true, currency };
+}
+
+// Lets a route's catch block answer 422 when an amount can't be converted, instead of a 500
+export function exchangeRateErrorResponse(error: unknown) {
+  if (!(error instanceof MissingExchangeRateError)) return null;
+  return NextResponse.json({ error: error.message }, { status: 422 });
+}
+
+export type CurrencyConverter = {
+  currency: string;
+  convert: (amount: number, from: string) => number;
+};
+
+// Loads the latest rate of every pair on or before `asOf`. Pairs are used directly, inverted, or
+// crossed through one shared currency (so a USD-based file covers EUR -> INR).
+export async function loadCurrencyConverter(currency: string, asOf = new Date()): Promise<CurrencyConverter> {
+  const rows = await withRetry(
+    () =>
+      prisma.exchangeRate.findMany({
+        where: { rateDate: { lte: asOf } },
+        orderBy: { rateDate: 'desc' },
+        distinct: ['baseCurrency', 'quoteCurrency'],
+        select: { baseCurrency: true, quoteCurrency: true, rate: true },
+      }),
+    'exchangeRate.findMany(latest)'
+  );
+
+  const pairs = new Map<string, number>();
+  for (const row of rows) {
+    const rate = Number(row.rate);
+    if (rate > 0) pairs.set(`${row.baseCurrency}:${row.quoteCurrency}`, rate);
+  }
+  const known = new Set(rows.flatMap((r) => [r.baseCurrency, r.quoteCurrency]));
+
+  const pairRate = (from: string, to: string) => {
+    const direct = pairs.get(`${from}:${to}`);
+    if (direct) return direct;
+    const inverse = pairs.get(`${to}:${from}`);
+    return inverse ? 1 / inverse : undefined;
+  };
+
+  const cache = new Map<string, number>();
+  const rateFrom = (from: string) => {
+    const cached = cache.get(from);
+    if (cached) return cached;
+    let rate = pairRate(from, currency);
+    for (const pivot of known) {
+      if (rate) break;
+      const toPivot = pairRate(from, pivot);
+      const fromPivot = toPivot && pairRate(pivot, currency);
+      if (toPivot && fromPivot) rate = toPivot * fromPivot;
+    }
+    if (!rate) throw new MissingExchangeRateError(from, currency);
+    cache.set(from, rate);
+    return rate;
+  };
+
+  return {
+    currency,
+    convert: (amount, from) => (from === currency || amount === 0 ? amount : amount * rateFrom(from)),
+  };
+}
@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  findCustomers: vi.fn(),
+  findProducts: vi.fn(),
+  findOrders: vi.fn(),
+  updateManyOrders: vi.fn(),
+  upsertOrder: vi.fn(),
+  deleteItems: vi.fn(),
+  createItems: vi.fn(),
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  default: {
+    customer: { findMany: mocks.findCustomers },
+    product: { findMany: mocks.findProducts },
+    order: { findMany: mocks.findOrders, updateMany: mocks.updateManyOrders, upsert: mocks.upsertOrder },
+    orderItem: { deleteMany: mocks.deleteItems, createMany: mocks.createItems },
+    $transaction: (operations: unknown[]) => Promise.all(operations),
+  },
+  withRetry: <T>(fn: () => Promise<T>) => fn(),
+}));
+
+import { upsertOrders } from '@/lib/ingest';
+
+const STORE_ID = 'store-1';
+
+function order(updatedAt: string) {
+  return {
+    id: 1001,
+    total_price: '50.00',
+    updated_at: updatedAt,
+    line_items: [{ id: 1, title: 'Mug', quantity: 1, price: '50.00' }],
+  };
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  mocks.findCustomers.mockResolvedValue([]);
+  mocks.findProducts.mockResolvedValue([]);
+  mocks.findOrders.mockResolvedValue([{ id: 'order-1', shopifyId: '1001' }]);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.resetAllMocks();
+});
+
+describe('upsertOrders', () => {
+  it('only updates a stored order that is not newer than the payload', async () => {
+    mocks.updateManyOrders.mockResolvedValue({ count: 1 });
+
+    const saved = await upsertOrders(STORE_ID, [order('2024-03-01T10:00:00Z')]);
+
+    expect(saved).toEqual([{ id: 'order-1' }]);
+    const [{ where, data }] = mocks.updateManyOrders.mock.calls[0];
+    expect(where).toEqual({
+      id: 'order-1',
+      OR: [{ shopifyUpdatedAt: null }, { shopifyUpdatedAt: { lte: new Date('2024-03-01T10:00:00Z') } }],
+    });
+    expect(data.shopifyUpdatedAt).toEqual(new Date('2024-03-01T10:00:00Z'));
+    expect(mocks.deleteItems).toHaveBeenCalledWith({ where: { orderId: { in: ['order-1'] } } });
+  });
+
+  it('leaves the order and its line items alone when the stored version is newer', async () => {
+    mocks.updateManyOrders.mockResolvedValue({ count: 0 });
+
+    const saved = await upsertOrders(STORE_ID, [order('2024-03-01T09:00:00Z')]);
+
+    expect(saved).toEqual([]);
+    expect(mocks.deleteItems).not.toHaveBeenCalled();
+    expect(mocks.createItems).not.toHaveBeenCalled();
+  });
+
+  it('creates orders it has not seen before', async () => {
+    mocks.findOrders.mockResolvedValue([]);
+    mocks.upsertOrder.mockResolvedValue({ id: 'order-2' });
+
+    const saved = await upsertOrders(STORE_ID, [order('2024-03-01T10:00:00Z')]);
+
+    expect(saved).toEqual([{ id: 'order-2' }]);
+    expect(mocks.updateManyOrders).not.toHaveBeenCalled();
+    expect(mocks.createItems).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ orderId: 'order-2', shopifyId: '1', title: 'Mug' })],
+    });
+  });
+});
@@ -0,0 +1,289 @@
+import prisma, { withRetry } from '@/lib/prisma';
+
+// Shared write path for Shopify payloads, used by both the historical sync and webhooks.
+
+export type ShopifyCustomer = {
+  id: number | string;
+  email?: string | null;
+  first_name?: string | null;
+  last_name?: string | null;
+  phone?: string | null;
+  updated_at?: string | null;
+};
+
+export type ShopifyVariant = {
+  id: number | string;
+  price?: string | number | null;
+  compare_at_price?: string | number | null;
+};
+
+export type ShopifyProduct = {
+  id: number | string;
+  title?: string | null;
+  handle?: string | null;
+  status?: string | null;
+  vendor?: string | null;
+  product_type?: string | null;
+  tags?: string | null;
+  variants?: ShopifyVariant[] | null;
+  updated_at?: string | null;
+};
+
+export type ShopifyLineItem = {
+  id: number | string;
+  title?: string | null;
+  quantity?: number | null;
+  price?: string | number | null;
+  product_id?: number | string | null;
+  variant_id?: number | string | null;
+};
+
+export type ShopifyMoneySet = {
+  shop_money?: { amount?: string | number | null } | null;
+  presentment_money?: { amount?: string | number | null } | null;
+};
+
+export type ShopifyTransaction = {
+  kind?: string | null;
+  status?: string | null;
+  amount?: string | number | null;
+};
+
+export type ShopifyOrderRefund = {
+  id: number | string;
+  transactions?: ShopifyTransaction[] | null;
+};
+
+export type ShopifyOrder = {
+  id: number | string;
+  name?: string | null;
+  email?: string | null;
+  total_price?: string | number | null;
+  total_price_set?: ShopifyMoneySet | null;
+  subtotal_price?: string | number | null;
+  total_tax?: string | number | null;
+  total_discounts?: string | number | null;
+  total_shipping_price_set?: ShopifyMoneySet | null;
+  currency?: string | null;
+  presentment_currency?: string | null;
+  financial_status?: string | null;
+  fulfillment_status?: string | null;
+  cancelled_at?: string | null;
+  cancel_reason?: string | null;
+  test?: boolean | null;
+  tags?: string | null;
+  source_name?: string | null;
+  landing_site?: string | null;
+  referring_site?: string | null;
+  processed_at?: string | null;
+  updated_at?: string | null;
+  customer?: ShopifyCustomer | null;
+  line_items?: ShopifyLineItem[] | null;
+  refunds?: ShopifyOrderRefund[] | null;
+};
+
+// Ensure string format for Decimal columns; Prisma accepts strings for Decimal
+function toDecimalString(value: string | number | null | undefined) {
+  if (value == null || value === '') return null;
+  return typeof value === 'string' ? value : String(value);
+}
+
+export async function upsertCustomers(storeId: string, customers: ShopifyCustomer[]) {
+  if (customers.length === 0) return [];
+  // Upsert rather than createMany so that customers edited in Shopify are refreshed
+  return withRetry(
+    () =>
+      prisma.$transaction(
+        customers.map((c) => {
+          const data = {
+            email: c.email ?? null,
+            firstName: c.first_name ?? null,
+            lastName: c.last_name ?? null,
+            phone: c.phone ?? null,
+          };
+          return prisma.customer.upsert({
+            where: { shopifyId_storeId: { shopifyId: String(c.id), storeId } },
+            update: data,
+            create: { ...data, shopifyId: String(c.id), storeId },
+          });
+        })
+      ),
+    'customer.upsert(batch)'
+  );
+}
+
+export async function upsertProducts(storeId: string, products: ShopifyProduct[]) {
+  if (products.length === 0) return [];
+  return withRetry(
+    () =>
+      prisma.$transaction(
+        products.map((p) => {
+          // Product carries a single price; the first variant is Shopify's default variant
+          const variant = p.variants?.[0];
+          const data = {
+            title: p.title ?? 'Untitled product',
+            handle: p.handle ?? null,
+            status: p.status ?? null,
+            price: toDecimalString(variant?.price),
+            compareAtPrice: toDecimalString(variant?.compare_at_price),
+            vendor: p.vendor ?? null,
+            productType: p.product_type || null,
+            tags: p.tags || null,
+          };
+          return prisma.product.upsert({
+            where: { shopifyId_storeId: { shopifyId: String(p.id), storeId } },
+            update: data,
+            create: { ...data, shopifyId: String(p.id), storeId },
+          });
+        })
+      ),
+    'product.upsert(batch)'
+  );
+}
+
+// Refunded amount across all successful refund transactions of an order
+function sumRefunds(refunds: ShopifyOrderRefund[] | null | undefined) {
+  let total = 0;
+  for (const refund of refunds ?? []) {
+    for (const t of refund.transactions ?? []) {
+      if (t.kind === 'refund' && t.status === 'success') total += Number(t.amount || 0);
+    }
+  }
+  return total.toFixed(2);
+}
+
+// Maps Shopify ids to our internal ids for the given model, limited to the ids referenced by a batch
+async function resolveInternalIds(model: 'customer' | 'product', storeId: string, shopifyIds: string[]) {
+  const map = new Map<string, string>();
+  if (shopifyIds.length === 0) return map;
+  const where = { storeId, shopifyId: { in: shopifyIds } };
+  const select = { id: true, shopifyId: true };
+  const rows =
+    model === 'customer'
+      ? await withRetry(() => prisma.customer.findMany({ where, select }), 'customer.findMany')
+      : await withRetry(() => prisma.product.findMany({ where, select }), 'product.findMany');
+  for (const row of rows) map.set(row.shopifyId, row.id);
+  return map;
+}
+
+function parseDate(value: string | null | undefined) {
+  const date = value ? new Date(value) : null;
+  return date && !isNaN(date.getTime()) ? date : null;
+}
+
+// Upserts orders and replaces their line items. Customers and products must already be ingested
+// to be linked; unknown references are left null on new orders (and an existing order keeps its
+// customer) rather than failing the batch. A payload older than the stored order (a retried,
+// replayed or out-of-order webhook) is skipped, line items included. Returns the orders written.
+export async function upsertOrders(storeId: string, orders: ShopifyOrder[]) {
+  if (orders.length === 0) return [];
+
+  const customerShopifyIds = Array.from(
+    new Set(orders.filter((o) => o.customer).map((o) => String(o.customer!.id)))
+  );
+  const productShopifyIds = Array.from(
+    new Set(
+      orders.flatMap((o) => (o.line_items ?? []).filter((li) => li.product_id != null).map((li) => String(li.product_id)))
+    )
+  );
+  const [customerIds, productIds, existing] = await Promise.all([
+    resolveInternalIds('customer', storeId, customerShopifyIds),
+    resolveInternalIds('product', storeId, productShopifyIds),
+    withRetry(
+      () =>
+        prisma.order.findMany({
+          where: { storeId, shopifyId: { in: orders.map((o) => String(o.id)) } },
+          select: { id: true, shopifyId: true },
+        }),
+      'order.findMany'
+    ),
+  ]);
+  const existingIds = new Map(existing.map((row) => [row.shopifyId, row.id]));
+
+  // Upsert rather than createMany so that refunds, fulfillment and status changes are picked up
+  const results = await withRetry(
+    () =>
+      prisma.$transaction(
+        orders.map((o) => {
+          const shopifyUpdatedAt = parseDate(o.updated_at);
+          const data = {
+            orderNumber: o.name ?? undefined,
+            email: o.email ?? null,
+            totalPrice: toDecimalString(o.total_price) ?? '0',
+            subtotalPrice: toDecimalString(o.subtotal_price),
+            totalTax: toDecimalString(o.total_tax),
+            totalDiscounts: toDecimalString(o.total_discounts) ?? '0',
+            totalShipping: toDecimalString(o.total_shipping_price_set?.shop_money?.amount) ?? '0',
+            // Payloads without a refunds array (e.g. trimmed test payloads) keep the stored amount
+            totalRefunded: Array.isArray(o.refunds) ? sumRefunds(o.refunds) : undefined,
+            currency: o.currency ?? undefined, // omit to use default when undefined
+            presentmentCurrency: o.presentment_currency ?? null,
+            totalPricePresentment: toDecimalString(o.total_price_set?.presentment_money?.amount),
+            financialStatus: o.financial_status ?? null,
+            fulfillmentStatus: o.fulfillment_status ?? null,
+            cancelledAt: o.cancelled_at ? new Date(o.cancelled_at) : null,
+            cancelReason: o.cancel_reason ?? null,
+            test: o.test ?? false,
+            tags: o.tags || null,
+            sourceName: o.source_name ?? null,
+            landingSite: o.landing_site ?? null,
+            referringSite: o.referring_site ?? null,
+            processedAt: o.processed_at ? new Date(o.processed_at) : null,
+            shopifyUpdatedAt: shopifyUpdatedAt ?? undefined,
+            // A customer we haven't ingested yet leaves an existing link alone (undefined skips the update)
+            customerId: o.customer ? customerIds.get(String(o.customer.id)) : null,
+          };
+          const id = existingIds.get(String(o.id));
+          if (id) {
+            // Guarded in the UPDATE itself, so a concurrent newer write can't be overwritten either
+            const newerThanStored = shopifyUpdatedAt
+              ? { OR: [{ shopifyUpdatedAt: null }, { shopifyUpdatedAt: { lte: shopifyUpdatedAt } }] }
+              : {};
+            return prisma.order.updateMany({ where: { id, ...newerThanStored }, data });
+          }
+          return prisma.order.upsert({
+            where: { shopifyId_storeId: { shopifyId: String(o.id), storeId } },
+            update: data,
+            create: { ...data, customerId: data.customerId ?? null, shopifyId: String(o.id), storeId },
+            select: { id: true },
+          });
+        })
+      ),
+    'order.upsert(batch)'
+  );
+
+  const written = orders.flatMap((order, i) => {
+    const result = results[i];
+    if ('id' in result) return [{ order, id: result.id }];
+    return result.count > 0 ? [{ order, id: existingIds.get(String(order.id))! }] : [];
+  });
+  const skipped = orders.length - written.length;
+  if (skipped > 0) console.log(`[INGEST] Skipped ${skipped} order(s) older than the stored version.`);
+  const saved = written.map(({ id }) => ({ id }));
+
+  // Line items have no stable unique key in our schema, so each order's items are replaced wholesale.
+  // Orders whose payload omits line_items keep the items they already have.
+  const withItems = written.filter(({ order }) => Array.isArray(order.line_items));
+  if (withItems.length === 0) return saved;
+  const orderIds = withItems.map(({ id }) => id);
+  const itemRows = withItems.flatMap(({ order, id }) =>
+    order.line_items!.map((li) => ({
+      orderId: id,
+      shopifyId: String(li.id),
+      title: li.title ?? 'Untitled item',
+      quantity: li.quantity ?? 0,
+      price: toDecimalString(li.price) ?? '0',
+      productId: li.product_id != null ? productIds.get(String(li.product_id)) ?? null : null,
+    }))
+  );
+  await withRetry(
+    () =>
+      prisma.$transaction([
+        prisma.orderItem.deleteMany({ where: { orderId: { in: orderIds } } }),
+        prisma.orderItem.createMany({ data: itemRows }),
+      ]),
+    'orderItem.replace(batch)'
+  );
+
+  return saved;
+}
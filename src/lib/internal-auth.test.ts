@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { signInternalRequest, verifyInternalSignature } from '@/lib/internal-auth';
+
+const SECRET = 'test-internal-secret';
+const BODY = JSON.stringify({ id: 2002 });
+const NOW = 1_700_000_000;
+
+beforeEach(() => {
+  vi.stubEnv('INTERNAL_INGEST_SECRET', SECRET);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('verifyInternalSignature', () => {
+  it('accepts a valid signature within the clock-skew window', () => {
+    const signature = signInternalRequest(BODY, NOW - 60, SECRET);
+    expect(verifyInternalSignature(BODY, signature, String(NOW - 60), NOW)).toEqual({ valid: true, message: undefined });
+  });
+
+  it('rejects a tampered body', () => {
+    const signature = signInternalRequest(BODY, NOW, SECRET);
+    const result = verifyInternalSignature(JSON.stringify({ id: 2003 }), signature, String(NOW), NOW);
+    expect(result).toEqual({ valid: false, message: 'Signature mismatch.' });
+  });
+
+  it('rejects a length-mismatched signature without throwing', () => {
+    const signature = signInternalRequest(BODY, NOW, SECRET).slice(0, 16);
+    expect(() => verifyInternalSignature(BODY, signature, String(NOW), NOW)).not.toThrow();
+    expect(verifyInternalSignature(BODY, signature, String(NOW), NOW).valid).toBe(false);
+  });
+
+  it('rejects an expired timestamp', () => {
+    const timestamp = NOW - 301;
+    const signature = signInternalRequest(BODY, timestamp, SECRET);
+    const result = verifyInternalSignature(BODY, signature, String(timestamp), NOW);
+    expect(result).toEqual({ valid: false, message: 'Timestamp is missing or outside the allowed window.' });
+  });
+
+  it('rejects a timestamp in the future', () => {
+    const timestamp = NOW + 301;
+    const signature = signInternalRequest(BODY, timestamp, SECRET);
+    expect(verifyInternalSignature(BODY, signature, String(timestamp), NOW).valid).toBe(false);
+  });
+
+  it('rejects a non-numeric timestamp', () => {
+    const signature = signInternalRequest(BODY, NOW, SECRET);
+    expect(verifyInternalSignature(BODY, signature, 'yesterday', NOW).valid).toBe(false);
+  });
+
+  it('rejects missing signature or timestamp headers', () => {
+    const signature = signInternalRequest(BODY, NOW, SECRET);
+    const missing = { valid: false, message: 'Missing signature or timestamp header.' };
+    expect(verifyInternalSignature(BODY, null, String(NOW), NOW)).toEqual(missing);
+    expect(verifyInternalSignature(BODY, signature, null, NOW)).toEqual(missing);
+  });
+
+  it('rejects everything when the secret is not configured', () => {
+    vi.stubEnv('INTERNAL_INGEST_SECRET', '');
+    const signature = signInternalRequest(BODY, NOW, SECRET);
+    expect(verifyInternalSignature(BODY, signature, String(NOW), NOW).valid).toBe(false);
+  });
+});
@@ -0,0 +1,43 @@
+import crypto from 'crypto';
+import { safeEqual } from '@/lib/shopify-hmac';
+
+// Signed requests from our own tooling (seed scripts, load tests) to internal endpoints.
+// Signature: hex HMAC-SHA256 of `${timestamp}.${rawBody}` keyed by INTERNAL_INGEST_SECRET,
+// sent as `x-internal-signature` alongside `x-internal-timestamp` (unix seconds).
+
+const MAX_CLOCK_SKEW_SECONDS = 300;
+
+export function signInternalRequest(rawBody: string, timestamp: number, secret: string) {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${rawBody}`, 'utf8').digest('hex');
+}
+
+export function verifyInternalSignature(
+  rawBody: string,
+  signature: string | null,
+  timestampHeader: string | null,
+  now = Math.floor(Date.now() / 1000)
+) {
+  const secret = process.env.INTERNAL_INGEST_SECRET;
+  if (!secret) {
+    return { valid: false, message: 'Internal ingest secret is not configured.' };
+  }
+  if (!signature || !timestampHeader) {
+    return { valid: false, message: 'Missing signature or timestamp header.' };
+  }
+
+  const timestamp = Number(timestampHeader);
+  if (!Number.isInteger(timestamp) || Math.abs(now - timestamp) > MAX_CLOCK_SKEW_SECONDS) {
+    return { valid: false, message: 'Timestamp is missing or outside the allowed window.' };
+  }
+
+  const valid = safeEqual(signInternalRequest(rawBody, timestamp, secret), signature);
+  return { valid, message: valid ? undefined : 'Signature mismatch.' };
+}
+
+// Cron endpoints (queue drain, scheduler) authenticate with `Authorization: Bearer $CRON_SECRET`,
+// which is what Vercel Cron sends
+export function verifyCronRequest(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+  return safeEqual(request.headers.get('authorization') || '', `Bearer ${secret}`);
+}
@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  recordWebhookEvent: vi.fn(),
+  processWebhookEvent: vi.fn(),
+  enqueueJob: vi.fn(),
+  updateSyncJobs: vi.fn(),
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  default: { syncJob: { updateMany: mocks.updateSyncJobs } },
+  withRetry: <T>(fn: () => Promise<T>) => fn(),
+}));
+vi.mock('@/lib/queue', () => ({ enqueueJob: mocks.enqueueJob, runWorker: vi.fn() }));
+vi.mock('@/lib/sync', () => ({ runSyncJob: vi.fn() }));
+vi.mock('@/lib/bulk-sync', () => ({ pollBulkSync: vi.fn() }));
+vi.mock('@/lib/token-crypto', () => ({ withDecryptedToken: <T>(store: T) => store }));
+vi.mock('@/lib/webhook-events', () => ({
+  recordWebhookEvent: mocks.recordWebhookEvent,
+  processWebhookEvent: mocks.processWebhookEvent,
+}));
+
+import { acceptWebhook, JOB_HANDLERS } from '@/lib/jobs';
+
+const DELIVERY = {
+  webhookId: 'w1',
+  topic: 'orders/create',
+  shop: 'demo.myshopify.com',
+  rawBody: '{}',
+  storeId: 'store-1',
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.resetAllMocks();
+});
+
+describe('acceptWebhook', () => {
+  it('processes a new delivery inline without queueing it', async () => {
+    mocks.recordWebhookEvent.mockResolvedValue({ id: 'evt-1', storeId: 'store-1' });
+    await expect(acceptWebhook(DELIVERY)).resolves.toBe(true);
+    expect(mocks.processWebhookEvent).toHaveBeenCalledWith('evt-1');
+    expect(mocks.enqueueJob).not.toHaveBeenCalled();
+  });
+
+  it('queues the event for retry when processing fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mocks.recordWebhookEvent.mockResolvedValue({ id: 'evt-1', storeId: 'store-1' });
+    mocks.processWebhookEvent.mockRejectedValue(new Error('db down'));
+    await expect(acceptWebhook(DELIVERY)).resolves.toBe(true);
+    expect(mocks.enqueueJob).toHaveBeenCalledWith('webhook.process', { eventId: 'evt-1' }, { storeId: 'store-1' });
+  });
+
+  it('ignores duplicates', async () => {
+    mocks.recordWebhookEvent.mockResolvedValue(null);
+    await expect(acceptWebhook(DELIVERY)).resolves.toBe(false);
+    expect(mocks.processWebhookEvent).not.toHaveBeenCalled();
+  });
+});
+
+describe('sync job failure handling', () => {
+  it('marks the SyncJob failed when its queue job fails or is abandoned', async () => {
+    await JOB_HANDLERS['sync.run'].onFailure({ syncJobId: 'sj-1' }, 'Lock expired', { retrying: true });
+    expect(mocks.updateSyncJobs).toHaveBeenCalledWith({
+      where: { id: 'sj-1', status: { in: ['queued', 'running'] } },
+      data: expect.objectContaining({ status: 'failed', error: 'Lock expired' }),
+    });
+  });
+
+  it('fails a bulk sync only once its poll chain is dead-lettered', async () => {
+    await JOB_HANDLERS['sync.bulk-poll'].onFailure({ syncJobId: 'sj-1' }, 'boom', { retrying: true });
+    expect(mocks.updateSyncJobs).not.toHaveBeenCalled();
+    await JOB_HANDLERS['sync.bulk-poll'].onFailure({ syncJobId: 'sj-1' }, 'boom', { retrying: false });
+    expect(mocks.updateSyncJobs).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,104 @@
+import prisma, { withRetry } from '@/lib/prisma';
+import { pollBulkSync } from '@/lib/bulk-sync';
+import { enqueueJob, runWorker, type JobFailureHandler, type JobHandlers } from '@/lib/queue';
+import { runSyncJob } from '@/lib/sync';
+import { withDecryptedToken } from '@/lib/token-crypto';
+import { processWebhookEvent, recordWebhookEvent } from '@/lib/webhook-events';
+
+// Job types the background worker knows how to run, and typed helpers to enqueue them.
+
+type SyncRunJob = { syncJobId: string };
+type WebhookJob = { eventId: string };
+
+function findSyncJobWithStore(syncJobId: string) {
+  return withRetry(
+    () =>
+      prisma.syncJob.findUnique({
+        where: { id: syncJobId },
+        include: { store: { select: { id: true, shop: true, accessToken: true } } },
+      }),
+    'syncJob.findUnique(store)'
+  );
+}
+
+async function runQueuedSync(payload: unknown) {
+  const { syncJobId } = payload as SyncRunJob;
+  const job = await findSyncJobWithStore(syncJobId);
+  // Store disconnected since (cascade removed the job) or an earlier attempt already finished it
+  if (!job || job.status === 'succeeded') return;
+  await runSyncJob(withDecryptedToken(job.store), job.id);
+}
+
+// Records a failed or abandoned attempt on the SyncJob, which would otherwise stay "running" (and
+// block scheduled syncs) when the worker was killed mid-run. A retry marks it running again.
+async function failSyncJob(syncJobId: string, error: string) {
+  await withRetry(
+    () =>
+      prisma.syncJob.updateMany({
+        where: { id: syncJobId, status: { in: ['queued', 'running'] } },
+        data: { status: 'failed', error, finishedAt: new Date() },
+      }),
+    'syncJob.updateMany(failed)'
+  );
+}
+
+const failQueuedSync: JobFailureHandler = (payload, error) => failSyncJob((payload as SyncRunJob).syncJobId, error);
+
+// Once the poll chain is dead-lettered nothing retries an interrupted ingest, so the job is failed
+// rather than left running
+const failBulkPoll: JobFailureHandler = async (payload, error, { retrying }) => {
+  if (!retrying) await failSyncJob((payload as SyncRunJob).syncJobId, `Bulk sync polling stopped: ${error}`);
+};
+
+// Bulk syncs are advanced by a chain of these (see enqueueBulkPoll) until they finish
+async function runBulkPoll(payload: unknown) {
+  const { syncJobId } = payload as SyncRunJob;
+  const job = await findSyncJobWithStore(syncJobId);
+  if (!job || job.status !== 'running') return;
+  await pollBulkSync(withDecryptedToken(job.store), job.id);
+}
+
+async function processWebhook(payload: unknown) {
+  const { eventId } = payload as WebhookJob;
+  await processWebhookEvent(eventId);
+}
+
+export const JOB_HANDLERS = {
+  'sync.run': { run: runQueuedSync, onFailure: failQueuedSync },
+  'sync.bulk-poll': { run: runBulkPoll, onFailure: failBulkPoll },
+  'webhook.process': processWebhook,
+} satisfies JobHandlers;
+
+export function enqueueSyncRun(storeId: string, syncJobId: string) {
+  // The SyncJob row records each failure; a few retries cover transient Shopify/DB errors
+  return enqueueJob('sync.run', { syncJobId } satisfies SyncRunJob, { storeId, maxAttempts: 3 });
+}
+
+// Queues a recorded WebhookEvent for processing (first delivery or a replay)
+export function enqueueWebhookEvent(storeId: string | null, eventId: string) {
+  return enqueueJob('webhook.process', { eventId } satisfies WebhookJob, { storeId: storeId ?? undefined });
+}
+
+// Leaves headroom under a 60s maxDuration for the job that is running when the budget runs out
+const WORK_BUDGET_MS = 45 * 1000;
+
+// Runs due jobs until the queue is empty or the budget is spent, for serverless invocations that
+// have no long-running worker behind them (cron routes, or after a sync is requested)
+export function drainQueue(startedAt = Date.now()) {
+  return runWorker(JOB_HANDLERS, { untilMs: startedAt + WORK_BUDGET_MS, drain: true });
+}
+
+// Logs a verified delivery and processes it right away, unless its webhook id has been seen
+// before; the queue only handles retries, so ingestion doesn't wait for the next worker run.
+// Returns false for duplicates.
+export async function acceptWebhook(delivery: Parameters<typeof recordWebhookEvent>[0]) {
+  const event = await recordWebhookEvent(delivery);
+  if (!event) return false;
+  try {
+    await processWebhookEvent(event.id);
+  } catch (error) {
+    console.error(`[WEBHOOK] ${delivery.topic} from ${delivery.shop} failed; queued for retry:`, error);
+    await enqueueWebhookEvent(event.storeId, event.id);
+  }
+  return true;
+}
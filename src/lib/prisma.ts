@@ -10,4 +10,24 @@ if (process.env.NODE_ENV !== 'production') {
   globalThis.prisma = prisma
 }
 
-export default prisma;
\ No newline at end of file
+export default prisma;
+
+// Retries transient connection-pool timeouts (P2024) with exponential backoff; other errors are rethrown.
+export async function withRetry<T>(fn: () => Promise<T>, label: string, retries = 3, baseDelayMs = 200) {
+  let attempt = 0;
+  while (true) {
+    try {
+      return await fn();
+    } catch (err) {
+      attempt += 1;
+      const message = err instanceof Error ? err.message : String(err);
+      const isPoolTimeout = message.includes('connection pool') || message.includes('P2024') || message.includes('Timed out fetching a new connection');
+      if (attempt > retries || !isPoolTimeout) {
+        throw err;
+      }
+      const delay = baseDelayMs * Math.pow(2, attempt - 1);
+      console.warn(`[DB] ${label} failed (attempt ${attempt}/${retries}). Retrying in ${delay}ms...`);
+      await new Promise((r) => setTimeout(r, delay));
+    }
+  }
+}
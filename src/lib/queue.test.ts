@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  findMany: vi.fn(),
+  updateMany: vi.fn(),
+  queryRaw: vi.fn(),
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  default: {
+    queueJob: { findMany: mocks.findMany, updateMany: mocks.updateMany },
+    $queryRaw: mocks.queryRaw,
+  },
+  withRetry: <T>(fn: () => Promise<T>) => fn(),
+}));
+
+import { runWorker } from '@/lib/queue';
+
+const LOCKED_AT = new Date('2024-01-01T00:00:00Z');
+
+function staleJob(attempts: number) {
+  return {
+    id: `job-${attempts}`,
+    type: 'sync.run',
+    payload: { syncJobId: 's1' },
+    attempts,
+    maxAttempts: 3,
+    lockedAt: LOCKED_AT,
+  };
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  mocks.findMany.mockResolvedValue([]);
+  mocks.updateMany.mockResolvedValue({ count: 1 });
+  mocks.queryRaw.mockResolvedValue([]);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.resetAllMocks();
+});
+
+describe('runWorker', () => {
+  it('dead-letters expired jobs without attempts left and releases only the rest', async () => {
+    mocks.findMany.mockResolvedValue([staleJob(3), staleJob(1)]);
+    const onFailure = vi.fn();
+
+    await runWorker({ 'sync.run': { run: vi.fn(), onFailure } }, { drain: true });
+
+    const [[deadCall], [releaseCall]] = mocks.updateMany.mock.calls;
+    expect(deadCall.where).toEqual({ id: 'job-3', status: 'running', lockedAt: LOCKED_AT });
+    expect(deadCall.data).toMatchObject({ status: 'dead', lastError: expect.stringContaining('Lock expired') });
+    expect(releaseCall.where).toEqual({ id: 'job-1', status: 'running', lockedAt: LOCKED_AT });
+    expect(releaseCall.data).toMatchObject({ status: 'pending', lockedAt: null, lockedBy: null });
+
+    // The job type hears about both, so e.g. the SyncJob row doesn't stay "running"
+    expect(onFailure).toHaveBeenCalledWith({ syncJobId: 's1' }, expect.stringContaining('Lock expired'), {
+      retrying: false,
+    });
+    expect(onFailure).toHaveBeenCalledWith({ syncJobId: 's1' }, expect.stringContaining('Lock expired'), {
+      retrying: true,
+    });
+  });
+
+  it('reports a dead-lettered job to its failure handler', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mocks.queryRaw.mockResolvedValueOnce([{ ...staleJob(3), lockedAt: new Date() }]);
+    const onFailure = vi.fn();
+    const run = vi.fn().mockRejectedValue(new Error('Shopify is down'));
+
+    await runWorker({ 'sync.run': { run, onFailure } }, { drain: true });
+
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(onFailure).toHaveBeenCalledWith({ syncJobId: 's1' }, 'Shopify is down', { retrying: false });
+  });
+
+  it('claims and locks jobs against UTC time, whatever the session timezone', async () => {
+    await runWorker({}, { drain: true });
+
+    const [strings, ...values] = mocks.queryRaw.mock.calls[0];
+    expect(strings.join('?')).not.toContain('now()');
+    const clocks = values.filter((value: { sql?: string }) => value?.sql?.includes('now()'));
+    expect(clocks).toHaveLength(3);
+    for (const clock of clocks) expect(clock.sql).toBe("(now() AT TIME ZONE 'UTC')");
+  });
+});
@@ -0,0 +1,186 @@
+import os from 'os';
+import { Prisma, type QueueJob } from '@prisma/client';
+import prisma, { withRetry } from '@/lib/prisma';
+
+// Postgres-backed job queue. Producers insert rows with enqueueJob; workers claim them with
+// SELECT ... FOR UPDATE SKIP LOCKED so any number of workers can poll the table without
+// double-processing. Failed jobs are retried with exponential backoff until maxAttempts, then
+// dead-lettered (status "dead") for inspection.
+
+export type QueueJobStatus = 'pending' | 'running' | 'succeeded' | 'dead';
+
+export type JobHandler = (payload: unknown, job: QueueJob) => Promise<void>;
+// Told about every failed attempt, including one abandoned by a dead worker, so a job type can
+// record the outcome where users see it; `retrying` is false once the job is dead-lettered
+export type JobFailureHandler = (payload: unknown, error: string, options: { retrying: boolean }) => Promise<void>;
+export type JobHandlers = Record<string, JobHandler | { run: JobHandler; onFailure: JobFailureHandler }>;
+
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+// A running job whose lock is older than this is assumed to belong to a dead worker
+const LOCK_TIMEOUT_MS = 30 * 60 * 1000;
+const DEFAULT_POLL_INTERVAL_MS = 2000;
+const STALE_CHECK_INTERVAL_MS = 60 * 1000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export async function enqueueJob(
+  type: string,
+  payload: Prisma.InputJsonValue,
+  { storeId, runAt, maxAttempts }: { storeId?: string; runAt?: Date; maxAttempts?: number } = {}
+) {
+  return withRetry(
+    () => prisma.queueJob.create({ data: { type, payload, storeId, runAt, maxAttempts } }),
+    'queueJob.create'
+  );
+}
+
+const STALE_LOCK_ERROR = 'Lock expired; the worker crashed or timed out';
+
+async function reportFailure(
+  handlers: JobHandlers,
+  job: Pick<QueueJob, 'id' | 'type' | 'payload'>,
+  error: string,
+  retrying: boolean
+) {
+  const handler = handlers[job.type];
+  if (typeof handler !== 'object') return;
+  try {
+    await handler.onFailure(job.payload, error, { retrying });
+  } catch (hookError) {
+    console.error(`[QUEUE] Failure handler for ${job.type} ${job.id} failed:`, hookError);
+  }
+}
+
+// Returns jobs abandoned by crashed or killed workers to the queue. The abandoned run already used
+// an attempt (claims count it up front), so jobs with none left are dead-lettered instead.
+async function releaseStaleLocks(handlers: JobHandlers) {
+  const stale = await withRetry(
+    () =>
+      prisma.queueJob.findMany({
+        where: { status: 'running', lockedAt: { lt: new Date(Date.now() - LOCK_TIMEOUT_MS) } },
+        select: { id: true, type: true, payload: true, attempts: true, maxAttempts: true, lockedAt: true },
+      }),
+    'queueJob.findMany(stale)'
+  );
+
+  for (const job of stale) {
+    const dead = job.attempts >= job.maxAttempts;
+    const data: Prisma.QueueJobUpdateManyMutationInput = dead
+      ? { status: 'dead', lockedAt: null, lockedBy: null, lastError: STALE_LOCK_ERROR, finishedAt: new Date() }
+      : { status: 'pending', lockedAt: null, lockedBy: null, lastError: STALE_LOCK_ERROR };
+    // Matching the lock leaves the job alone if another worker released it first
+    const { count } = await withRetry(
+      () => prisma.queueJob.updateMany({ where: { id: job.id, status: 'running', lockedAt: job.lockedAt }, data }),
+      'queueJob.updateMany(stale)'
+    );
+    if (count === 0) continue;
+    console.warn(`[QUEUE] ${job.type} ${job.id} lock expired; ${dead ? 'moved to dead letter' : 'released for retry'}.`);
+    await reportFailure(handlers, job, STALE_LOCK_ERROR, !dead);
+  }
+}
+
+// Prisma stores DateTime as `timestamp` holding UTC, so the current time must be UTC too; a bare
+// now() would shift by the session's timezone
+const NOW_UTC = Prisma.sql`(now() AT TIME ZONE 'UTC')`;
+
+// Atomically claims the next due job, counting the attempt up front so a crash mid-job still
+// uses one of its attempts
+async function claimNextJob(workerId: string) {
+  const [job] = await withRetry(
+    () => prisma.$queryRaw<QueueJob[]>`
+      UPDATE queue_jobs
+      SET status = 'running', "lockedAt" = ${NOW_UTC}, "lockedBy" = ${workerId},
+          attempts = attempts + 1, "updatedAt" = ${NOW_UTC}
+      WHERE id = (
+        SELECT id FROM queue_jobs
+        WHERE status = 'pending' AND "runAt" <= ${NOW_UTC}
+        ORDER BY "runAt"
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *`,
+    'queueJob.claim'
+  );
+  return job ?? null;
+}
+
+function getRetryDelay(attempts: number) {
+  return Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, attempts - 1), RETRY_MAX_DELAY_MS);
+}
+
+// Outcomes are written with updateMany: a job can delete its own row, e.g. app/uninstalled removing
+// the store its job cascades from
+async function runJob(job: QueueJob, handlers: JobHandlers) {
+  const handler = handlers[job.type];
+  try {
+    if (!handler) throw new Error(`No handler registered for job type ${job.type}`);
+    await (typeof handler === 'function' ? handler : handler.run)(job.payload, job);
+    await withRetry(
+      () =>
+        prisma.queueJob.updateMany({
+          where: { id: job.id },
+          data: { status: 'succeeded', lockedAt: null, lockedBy: null, lastError: null, finishedAt: new Date() },
+        }),
+      'queueJob.update(succeeded)'
+    );
+    console.log(`[QUEUE] ${job.type} ${job.id} succeeded (attempt ${job.attempts}).`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const dead = !handler || job.attempts >= job.maxAttempts;
+    const data: Prisma.QueueJobUpdateManyMutationInput = dead
+      ? { status: 'dead', lockedAt: null, lockedBy: null, lastError: message, finishedAt: new Date() }
+      : {
+          status: 'pending',
+          lockedAt: null,
+          lockedBy: null,
+          lastError: message,
+          runAt: new Date(Date.now() + getRetryDelay(job.attempts)),
+        };
+    await withRetry(() => prisma.queueJob.updateMany({ where: { id: job.id }, data }), 'queueJob.update(failed)');
+    console.error(
+      `[QUEUE] ${job.type} ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts})` +
+        `${dead ? '; moved to dead letter' : '; will retry'}:`,
+      error
+    );
+    await reportFailure(handlers, job, message, !dead);
+  }
+}
+
+export function getWorkerId() {
+  return `${os.hostname()}:${process.pid}`;
+}
+
+// Processes due jobs one at a time. With `untilMs` it stops once that deadline passes (for
+// time-boxed serverless invocations); with `drain` it stops as soon as the queue is empty.
+// Otherwise it polls until `signal` is aborted.
+export async function runWorker(
+  handlers: JobHandlers,
+  {
+    workerId = getWorkerId(),
+    pollIntervalMs = DEFAULT_POLL_INTERVAL_MS,
+    untilMs,
+    drain = false,
+    signal,
+  }: { workerId?: string; pollIntervalMs?: number; untilMs?: number; drain?: boolean; signal?: AbortSignal } = {}
+) {
+  let processed = 0;
+  let lastStaleCheck = 0;
+
+  while (!signal?.aborted && (untilMs === undefined || Date.now() < untilMs)) {
+    if (Date.now() - lastStaleCheck > STALE_CHECK_INTERVAL_MS) {
+      await releaseStaleLocks(handlers);
+      lastStaleCheck = Date.now();
+    }
+    const job = await claimNextJob(workerId);
+    if (!job) {
+      if (drain) break;
+      await sleep(pollIntervalMs);
+      continue;
+    }
+    await runJob(job, handlers);
+    processed += 1;
+  }
+
+  return processed;
+}
@@ -0,0 +1,125 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { CurrencyConverter } from '@/lib/fx';
+
+const mocks = vi.hoisted(() => ({
+  groupBy: vi.fn(),
+  findMany: vi.fn(),
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  default: { order: { groupBy: mocks.groupBy, findMany: mocks.findMany } },
+}));
+
+import {
+  lineItemRevenueSql,
+  orderRevenue,
+  resolveRevenueMode,
+  revenueOrderFilter,
+  revenueOrderSql,
+  sumRevenueByCurrency,
+  topOrderIdsByRevenue,
+} from '@/lib/revenue';
+
+// 1 EUR = 1.25 USD
+const TO_USD: CurrencyConverter = {
+  currency: 'USD',
+  convert: (amount, from) => (from === 'EUR' ? amount * 1.25 : amount),
+};
+
+afterEach(() => {
+  vi.resetAllMocks();
+});
+
+describe('resolveRevenueMode', () => {
+  it('defaults to net and rejects unknown modes', () => {
+    expect(resolveRevenueMode(new URLSearchParams())).toEqual({ ok: true, mode: 'net' });
+    expect(resolveRevenueMode(new URLSearchParams('revenueMode=paid_only'))).toEqual({ ok: true, mode: 'paid_only' });
+    const invalid = resolveRevenueMode(new URLSearchParams('revenueMode=booked'));
+    expect(invalid.ok).toBe(false);
+    if (!invalid.ok) expect(invalid.response.status).toBe(400);
+  });
+});
+
+describe('orderRevenue', () => {
+  it('subtracts refunds except in gross mode', () => {
+    const order = { totalPrice: '100.00', totalRefunded: '25.00' };
+    expect(orderRevenue(order, 'net')).toBe(75);
+    expect(orderRevenue(order, 'paid_only')).toBe(75);
+    expect(orderRevenue(order, 'gross')).toBe(100);
+  });
+
+  it('treats missing sums as zero, as aggregates over no orders return', () => {
+    expect(orderRevenue({ totalPrice: null, totalRefunded: null }, 'net')).toBe(0);
+  });
+});
+
+describe('sumRevenueByCurrency', () => {
+  it('nets each currency before converting and summing', () => {
+    const groups = [
+      { currency: 'USD', _sum: { totalPrice: '200.00', totalRefunded: '50.00' } },
+      { currency: 'EUR', _sum: { totalPrice: '100.00', totalRefunded: '20.00' } },
+    ];
+    expect(sumRevenueByCurrency(groups, 'net', TO_USD)).toBe(150 + 80 * 1.25);
+    expect(sumRevenueByCurrency(groups, 'gross', TO_USD)).toBe(200 + 100 * 1.25);
+  });
+});
+
+describe('revenueOrderFilter', () => {
+  it('selects the orders each mode counts', () => {
+    const notVoided = { OR: [{ financialStatus: null }, { financialStatus: { not: 'voided' } }] };
+    expect(revenueOrderFilter('gross')).toEqual({});
+    expect(revenueOrderFilter('net')).toEqual(notVoided);
+    expect(revenueOrderFilter('paid_only')).toEqual({
+      financialStatus: { in: ['paid', 'partially_refunded', 'refunded'] },
+    });
+    expect(revenueOrderFilter('exclude_cancelled')).toEqual({ ...notVoided, cancelledAt: null, test: false });
+  });
+});
+
+describe('revenueOrderSql', () => {
+  it('matches revenueOrderFilter, against the given table alias', () => {
+    expect(revenueOrderSql('gross').sql).toBe('TRUE');
+    expect(revenueOrderSql('net', 'ord').sql).toBe(`(ord."financialStatus" IS NULL OR ord."financialStatus" <> 'voided')`);
+
+    const paid = revenueOrderSql('paid_only');
+    expect(paid.sql).toBe('o."financialStatus" IN (?,?,?)');
+    expect(paid.values).toEqual(['paid', 'partially_refunded', 'refunded']);
+
+    expect(revenueOrderSql('exclude_cancelled').sql).toBe(
+      `(o."financialStatus" IS NULL OR o."financialStatus" <> 'voided') AND o."cancelledAt" IS NULL AND o.test = FALSE`
+    );
+  });
+});
+
+describe('lineItemRevenueSql', () => {
+  it('uses the line total as placed in gross mode', () => {
+    expect(lineItemRevenueSql('gross').sql).toBe('i.price * i.quantity');
+  });
+
+  it.each(['net', 'paid_only', 'exclude_cancelled'] as const)('allocates order refunds to items in %s mode', (mode) => {
+    expect(lineItemRevenueSql(mode).sql.replace(/\s+/g, ' ')).toBe(
+      'i.price * i.quantity - COALESCE( o."totalRefunded" * i.price * i.quantity / ' +
+        'NULLIF(SUM(i.price * i.quantity) OVER (PARTITION BY o.id), 0), 0)'
+    );
+  });
+});
+
+describe('topOrderIdsByRevenue', () => {
+  it('ranks on converted revenue after refunds rather than on order totals', async () => {
+    const orders = {
+      usdBig: { id: 'usd-big', totalPrice: '300.00', totalRefunded: '250.00', currency: 'USD' },
+      usdMid: { id: 'usd-mid', totalPrice: '120.00', totalRefunded: '0', currency: 'USD' },
+      eur: { id: 'eur', totalPrice: '100.00', totalRefunded: '0', currency: 'EUR' },
+    };
+    mocks.groupBy.mockResolvedValue([{ currency: 'USD' }, { currency: 'EUR' }]);
+    mocks.findMany.mockImplementation(async ({ where }) => {
+      if (where.AND[1].currency === 'USD') return [orders.usdBig, orders.usdMid];
+      if (where.AND[1].currency === 'EUR') return [orders.eur];
+      return [orders.usdBig];
+    });
+
+    // EUR 100 = USD 125 beats USD 120; the refunded USD 300 order is worth 50
+    expect(await topOrderIdsByRevenue({ storeId: 'store-1' }, 'net', 2, TO_USD)).toEqual(['eur', 'usd-mid']);
+    expect(await topOrderIdsByRevenue({ storeId: 'store-1' }, 'gross', 2, TO_USD)).toEqual(['usd-big', 'eur']);
+  });
+});
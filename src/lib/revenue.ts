@@ -0,0 +1,125 @@
+import { NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import type { CurrencyConverter } from '@/lib/fx';
+
+// Single definition of "revenue" for every insights route, selected with `?revenueMode=`:
+//   net                (default) order totals minus refunds, voided orders excluded
+//   gross              order totals as placed, every order counted
+//   paid_only          net, limited to orders whose payment was captured
+//   exclude_cancelled  net, without cancelled or test orders
+// Order totals are Shopify's total_price, i.e. already after discounts.
+
+export const REVENUE_MODES = ['net', 'gross', 'paid_only', 'exclude_cancelled'] as const;
+export type RevenueMode = (typeof REVENUE_MODES)[number];
+export const DEFAULT_REVENUE_MODE: RevenueMode = 'net';
+
+// refunded still counts as paid; its refunds are subtracted
+const PAID_STATUSES = ['paid', 'partially_refunded', 'refunded'];
+
+// financialStatus is nullable and SQL `<>` drops nulls, so "not voided" needs the explicit null branch
+const NOT_VOIDED: Prisma.OrderWhereInput = {
+  OR: [{ financialStatus: null }, { financialStatus: { not: 'voided' } }],
+};
+
+type Amount = Prisma.Decimal | number | string | null | undefined;
+
+export type RevenueModeParam = { ok: true; mode: RevenueMode } | { ok: false; response: NextResponse };
+
+export function resolveRevenueMode(searchParams: URLSearchParams): RevenueModeParam {
+  const mode = searchParams.get('revenueMode') || DEFAULT_REVENUE_MODE;
+  if (!REVENUE_MODES.includes(mode as RevenueMode)) {
+    const error = `revenueMode must be one of: ${REVENUE_MODES.join(', ')}`;
+    return { ok: false, response: NextResponse.json({ error }, { status: 400 }) };
+  }
+  return { ok: true, mode: mode as RevenueMode };
+}
+
+// Orders that count toward revenue (and order counts) in the given mode; spread into a where clause
+export function revenueOrderFilter(mode: RevenueMode): Prisma.OrderWhereInput {
+  switch (mode) {
+    case 'gross':
+      return {};
+    case 'net':
+      return NOT_VOIDED;
+    case 'paid_only':
+      return { financialStatus: { in: PAID_STATUSES } };
+    case 'exclude_cancelled':
+      return { ...NOT_VOIDED, cancelledAt: null, test: false };
+  }
+}
+
+// revenueOrderFilter for raw SQL over the orders table, with `alias` naming it in the query
+export function revenueOrderSql(mode: RevenueMode, alias = 'o'): Prisma.Sql {
+  const o = Prisma.raw(alias);
+  const notVoided = Prisma.sql`(${o}."financialStatus" IS NULL OR ${o}."financialStatus" <> 'voided')`;
+  switch (mode) {
+    case 'gross':
+      return Prisma.sql`TRUE`;
+    case 'net':
+      return notVoided;
+    case 'paid_only':
+      return Prisma.sql`${o}."financialStatus" IN (${Prisma.join(PAID_STATUSES)})`;
+    case 'exclude_cancelled':
+      return Prisma.sql`${notVoided} AND ${o}."cancelledAt" IS NULL AND ${o}.test = FALSE`;
+  }
+}
+
+export function subtractsRefunds(mode: RevenueMode) {
+  return mode !== 'gross';
+}
+
+// Revenue of one line item in raw SQL over order_items `i` joined to orders `o`. Refunds are only
+// tracked per order, so in net modes each item carries the share of the order's refunds matching
+// its share of the order's line totals. The window spans the order's items, so every item of a
+// counted order must be in the query.
+export function lineItemRevenueSql(mode: RevenueMode): Prisma.Sql {
+  const line = Prisma.sql`i.price * i.quantity`;
+  if (!subtractsRefunds(mode)) return line;
+  return Prisma.sql`${line} - COALESCE(
+    o."totalRefunded" * ${line} / NULLIF(SUM(${line}) OVER (PARTITION BY o.id), 0), 0)`;
+}
+
+// Revenue of one order, or of summed order columns (e.g. an aggregate's `_sum`)
+export function orderRevenue(order: { totalPrice: Amount; totalRefunded: Amount }, mode: RevenueMode) {
+  const total = Number(order.totalPrice || 0);
+  return subtractsRefunds(mode) ? total - Number(order.totalRefunded || 0) : total;
+}
+
+type CurrencySums = { currency: string; _sum: { totalPrice: Amount; totalRefunded: Amount } };
+
+// Revenue of order aggregates grouped by currency, summed in the reporting currency
+export function sumRevenueByCurrency(groups: CurrencySums[], mode: RevenueMode, fx: CurrencyConverter) {
+  return groups.reduce((sum, g) => sum + fx.convert(orderRevenue(g._sum, mode), g.currency), 0);
+}
+
+// Ids of the highest-revenue orders, best first. The totalPrice sort only ranks orders within one
+// currency and before refunds, so the top `take` of each currency plus every refunded order are
+// ranked on converted revenue instead of trusting it.
+export async function topOrderIdsByRevenue(
+  where: Prisma.OrderWhereInput,
+  mode: RevenueMode,
+  take: number,
+  fx: CurrencyConverter
+) {
+  const select = { id: true, totalPrice: true, totalRefunded: true, currency: true };
+  const currencies = await prisma.order.groupBy({ by: ['currency'], where });
+  const [byTotal, refunded] = await Promise.all([
+    Promise.all(
+      currencies.map(({ currency }) =>
+        prisma.order.findMany({ where: { AND: [where, { currency }] }, orderBy: { totalPrice: 'desc' }, take, select })
+      )
+    ),
+    subtractsRefunds(mode)
+      ? prisma.order.findMany({ where: { AND: [where, { totalRefunded: { gt: 0 } }] }, select })
+      : Promise.resolve([]),
+  ]);
+
+  const candidates = new Map(
+    [...byTotal.flat(), ...refunded].map((o) => [o.id, fx.convert(orderRevenue(o, mode), o.currency)])
+  );
+  return Array.from(candidates.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, take)
+    .map(([id]) => id);
+}
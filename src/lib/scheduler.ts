@@ -0,0 +1,82 @@
+import prisma, { withRetry } from '@/lib/prisma';
+import { createSyncJob, findActiveSyncJob } from '@/lib/sync';
+import { enqueueSyncRun } from '@/lib/jobs';
+
+// Periodic incremental re-sync. Each store with a syncIntervalMinutes is due once that long has
+// passed since its last scheduled run; every due run is recorded as a SyncJob (trigger "schedule"),
+// either queued for the worker or marked "skipped" when a sync is already in flight.
+
+export type ScheduledSyncOutcome = {
+  storeId: string;
+  shop: string;
+  outcome: 'queued' | 'skipped';
+  syncJobId: string;
+};
+
+export async function scheduleDueSyncs(now = new Date()) {
+  const stores = await withRetry(
+    () =>
+      prisma.store.findMany({
+        where: { syncIntervalMinutes: { not: null } },
+        select: { id: true, shop: true, syncIntervalMinutes: true, lastScheduledSyncAt: true },
+      }),
+    'store.findMany(scheduled)'
+  );
+
+  const outcomes: ScheduledSyncOutcome[] = [];
+  for (const store of stores) {
+    const dueAt = store.lastScheduledSyncAt
+      ? store.lastScheduledSyncAt.getTime() + store.syncIntervalMinutes! * 60 * 1000
+      : 0;
+    if (dueAt > now.getTime()) continue;
+
+    // Claim the slot so overlapping scheduler runs (cron + local worker) don't both act on it
+    const { count } = await withRetry(
+      () =>
+        prisma.store.updateMany({
+          where: { id: store.id, lastScheduledSyncAt: store.lastScheduledSyncAt },
+          data: { lastScheduledSyncAt: now },
+        }),
+      'store.updateMany(schedule)'
+    );
+    if (count === 0) continue;
+
+    try {
+      outcomes.push(await scheduleStoreSync(store, now));
+    } catch (error) {
+      console.error(`[SCHEDULER] Failed to schedule sync for ${store.shop}:`, error);
+    }
+  }
+
+  if (outcomes.length > 0) {
+    const queued = outcomes.filter((o) => o.outcome === 'queued').length;
+    console.log(`[SCHEDULER] ${queued} sync(s) queued, ${outcomes.length - queued} skipped.`);
+  }
+  return outcomes;
+}
+
+async function scheduleStoreSync(store: { id: string; shop: string }, now: Date): Promise<ScheduledSyncOutcome> {
+  const active = await findActiveSyncJob(store.id, now);
+
+  if (active) {
+    const skipped = await withRetry(
+      () =>
+        prisma.syncJob.create({
+          data: {
+            storeId: store.id,
+            kind: 'incremental',
+            trigger: 'schedule',
+            status: 'skipped',
+            error: `Sync ${active.id} is still ${active.status}.`,
+            finishedAt: now,
+          },
+        }),
+      'syncJob.create(skipped)'
+    );
+    return { storeId: store.id, shop: store.shop, outcome: 'skipped', syncJobId: skipped.id };
+  }
+
+  const job = await createSyncJob(store.id, 'incremental', 'schedule');
+  await enqueueSyncRun(store.id, job.id);
+  return { storeId: store.id, shop: store.shop, outcome: 'queued', syncJobId: job.id };
+}
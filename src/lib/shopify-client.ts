@@ -0,0 +1,193 @@
+import type { ShopifyCustomer, ShopifyOrder, ShopifyProduct } from '@/lib/ingest';
+
+// Thin Admin REST client shared by sync, webhooks and the install flow. It owns the API version,
+// Shopify's leaky-bucket throttling (X-Shopify-Shop-Api-Call-Limit and 429 Retry-After) and
+// Link-header pagination, so callers only deal with typed payloads.
+
+export const SHOPIFY_API_VERSION = process.env.SHOPIFY_API_VERSION || '2024-07';
+
+const MAX_THROTTLE_RETRIES = 5;
+const DEFAULT_RETRY_AFTER_SECONDS = 2;
+// REST buckets leak 2 calls/second on standard plans; slow down once we're this close to the limit
+const CALL_LIMIT_HEADROOM = 4;
+const LEAK_INTERVAL_MS = 500;
+
+export type ShopifyShop = {
+  id: number | string;
+  name?: string | null;
+  currency?: string | null;
+  iana_timezone?: string | null;
+};
+
+export type ShopifyWebhook = {
+  id: number | string;
+  topic: string;
+  address: string;
+  format?: string;
+};
+
+// Payload type for each paginated list endpoint, keyed by the response's root field
+export type ShopifyListResources = {
+  customers: ShopifyCustomer;
+  products: ShopifyProduct;
+  orders: ShopifyOrder;
+};
+
+type GraphQLError = { message: string; extensions?: { code?: string } };
+
+export class ShopifyApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly body: string
+  ) {
+    super(message);
+    this.name = 'ShopifyApiError';
+  }
+}
+
+type RequestOptions = {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  query?: Record<string, string>;
+  body?: unknown;
+  // api_permissions and oauth endpoints live outside /admin/api/{version}
+  versioned?: boolean;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Shopify REST pagination: the `Link` header carries the cursor for the next page,
+// e.g. `<https://shop.myshopify.com/admin/api/2024-07/orders.json?limit=250&page_info=abc>; rel="next"`
+function getNextPageUrl(linkHeader: string | null) {
+  if (!linkHeader) return null;
+  for (const part of linkHeader.split(',')) {
+    const match = part.match(/<([^>]+)>;\s*rel="next"/);
+    if (match) return match[1];
+  }
+  return null;
+}
+
+// "38/40" -> how long to wait so the next call doesn't overflow the bucket
+function getCallLimitDelay(header: string | null) {
+  if (!header) return 0;
+  const [used, limit] = header.split('/').map(Number);
+  if (!Number.isFinite(used) || !Number.isFinite(limit)) return 0;
+  const over = used - (limit - CALL_LIMIT_HEADROOM);
+  return over > 0 ? over * LEAK_INTERVAL_MS : 0;
+}
+
+export class ShopifyClient {
+  constructor(
+    readonly shop: string,
+    private readonly accessToken: string,
+    readonly apiVersion: string = SHOPIFY_API_VERSION
+  ) {}
+
+  static forStore(store: { shop: string; accessToken: string }) {
+    return new ShopifyClient(store.shop, store.accessToken);
+  }
+
+  url(path: string, query?: Record<string, string>, versioned = true) {
+    const base = versioned ? `https://${this.shop}/admin/api/${this.apiVersion}` : `https://${this.shop}/admin`;
+    const search = query && Object.keys(query).length ? `?${new URLSearchParams(query).toString()}` : '';
+    return `${base}/${path}.json${search}`;
+  }
+
+  // Sends a request, waiting out 429s (honouring Retry-After) and pausing when the call-limit
+  // header shows the bucket is nearly full. Non-2xx responses throw ShopifyApiError.
+  private async send(url: string, method: string, body?: unknown) {
+    for (let attempt = 0; ; attempt++) {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'X-Shopify-Access-Token': this.accessToken,
+          ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+        },
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+        cache: 'no-store',
+      });
+
+      if (response.status === 429 && attempt < MAX_THROTTLE_RETRIES) {
+        const retryAfter = Number(response.headers.get('retry-after')) || DEFAULT_RETRY_AFTER_SECONDS;
+        console.warn(`[SHOPIFY] Throttled on ${method} ${url} (attempt ${attempt + 1}). Retrying in ${retryAfter}s...`);
+        await sleep(retryAfter * 1000);
+        continue;
+      }
+
+      if (!response.ok) {
+        const text = await response.text().catch(() => '');
+        const path = new URL(url).pathname;
+        throw new ShopifyApiError(`Shopify ${method} ${path} failed (${response.status}): ${text}`, response.status, text);
+      }
+
+      const delay = getCallLimitDelay(response.headers.get('x-shopify-shop-api-call-limit'));
+      if (delay > 0) await sleep(delay);
+      return response;
+    }
+  }
+
+  async request<T>(path: string, { method = 'GET', query, body, versioned = true }: RequestOptions = {}) {
+    const response = await this.send(this.url(path, query, versioned), method, body);
+    const text = await response.text();
+    return (text ? JSON.parse(text) : {}) as T;
+  }
+
+  get<T>(path: string, query?: Record<string, string>) {
+    return this.request<T>(path, { query });
+  }
+
+  post<T>(path: string, body: unknown) {
+    return this.request<T>(path, { method: 'POST', body });
+  }
+
+  // GraphQL Admin API. Query-cost throttling comes back as a 200 with a THROTTLED error rather
+  // than a 429, so it is retried here; any other GraphQL error throws.
+  async graphql<T>(query: string, variables: Record<string, unknown> = {}) {
+    for (let attempt = 0; ; attempt++) {
+      const { data, errors } = await this.post<{ data?: T; errors?: GraphQLError[] }>('graphql', { query, variables });
+      if (!errors?.length) return data as T;
+
+      const throttled = errors.some((e) => e.extensions?.code === 'THROTTLED');
+      if (throttled && attempt < MAX_THROTTLE_RETRIES) {
+        console.warn(`[SHOPIFY] GraphQL throttled for ${this.shop} (attempt ${attempt + 1}). Retrying in ${DEFAULT_RETRY_AFTER_SECONDS}s...`);
+        await sleep(DEFAULT_RETRY_AFTER_SECONDS * 1000);
+        continue;
+      }
+      throw new Error(`Shopify GraphQL request failed: ${errors.map((e) => e.message).join('; ')}`);
+    }
+  }
+
+  // Yields one page of a list endpoint at a time, following Link-header cursors to the end.
+  // The next-page URLs Shopify returns already carry the filters, so `query` only shapes the first request.
+  async *paginate<R extends keyof ShopifyListResources>(resource: R, query: Record<string, string> = {}) {
+    let url: string | null = this.url(resource, query);
+    while (url) {
+      const response = await this.send(url, 'GET');
+      const body = (await response.json()) as Partial<Record<R, ShopifyListResources[R][]>>;
+      yield body[resource] ?? [];
+      url = getNextPageUrl(response.headers.get('link'));
+    }
+  }
+
+  async getShop() {
+    const { shop } = await this.get<{ shop: ShopifyShop }>('shop');
+    return shop;
+  }
+
+  async getOrder(orderId: number | string) {
+    const { order } = await this.get<{ order: ShopifyOrder }>(`orders/${orderId}`);
+    return order;
+  }
+
+  async createWebhook(topic: string, address: string) {
+    const { webhook } = await this.post<{ webhook: ShopifyWebhook }>('webhooks', {
+      webhook: { topic, address, format: 'json' },
+    });
+    return webhook;
+  }
+
+  // Revoking the token uninstalls the app from the shop
+  async revokeAccess() {
+    await this.request('api_permissions/current', { method: 'DELETE', versioned: false });
+  }
+}
@@ -0,0 +1,71 @@
+import crypto from 'crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { safeEqual, verifyWebhookHmac, verifyWebhookRequest } from '@/lib/shopify-hmac';
+
+const SECRET = 'test-shopify-secret';
+const BODY = JSON.stringify({ id: 1001, total_price: '25.00' });
+
+function sign(body: string, secret = SECRET) {
+  return crypto.createHmac('sha256', secret).update(body, 'utf8').digest('base64');
+}
+
+beforeEach(() => {
+  vi.stubEnv('SHOPIFY_API_SECRET', SECRET);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('safeEqual', () => {
+  it('compares equal and unequal digests of the same length', () => {
+    expect(safeEqual('abc123', 'abc123')).toBe(true);
+    expect(safeEqual('abc123', 'abc124')).toBe(false);
+  });
+
+  it('returns false for digests of different lengths instead of throwing', () => {
+    expect(() => safeEqual('short', 'a-much-longer-digest')).not.toThrow();
+    expect(safeEqual('short', 'a-much-longer-digest')).toBe(false);
+  });
+});
+
+describe('verifyWebhookHmac', () => {
+  it('accepts a valid signature', () => {
+    expect(verifyWebhookHmac(BODY, sign(BODY))).toEqual({ valid: true, message: undefined });
+  });
+
+  it('rejects a tampered body', () => {
+    const tampered = BODY.replace('25.00', '0.01');
+    expect(verifyWebhookHmac(tampered, sign(BODY))).toEqual({ valid: false, message: 'HMAC mismatch.' });
+  });
+
+  it('rejects a signature made with another secret', () => {
+    expect(verifyWebhookHmac(BODY, sign(BODY, 'other-secret')).valid).toBe(false);
+  });
+
+  it('rejects a length-mismatched HMAC without throwing', () => {
+    const truncated = sign(BODY).slice(0, 10);
+    expect(() => verifyWebhookHmac(BODY, truncated)).not.toThrow();
+    expect(verifyWebhookHmac(BODY, truncated)).toEqual({ valid: false, message: 'HMAC mismatch.' });
+  });
+
+  it('rejects a missing header', () => {
+    expect(verifyWebhookHmac(BODY, null)).toEqual({ valid: false, message: 'No HMAC header present.' });
+  });
+
+  it('rejects everything when the secret is not configured', () => {
+    vi.stubEnv('SHOPIFY_API_SECRET', '');
+    expect(verifyWebhookHmac(BODY, sign(BODY)).valid).toBe(false);
+  });
+});
+
+describe('verifyWebhookRequest', () => {
+  it('verifies the header against the raw body and returns it', async () => {
+    const request = new Request('https://example.com/api/webhooks/shopify', {
+      method: 'POST',
+      body: BODY,
+      headers: { 'x-shopify-hmac-sha256': sign(BODY) },
+    });
+    await expect(verifyWebhookRequest(request)).resolves.toEqual({ valid: true, message: undefined, rawBody: BODY });
+  });
+});
@@ -0,0 +1,48 @@
+import crypto from 'crypto';
+
+// Constant-time comparison of two base64/hex digests. timingSafeEqual throws on length
+// mismatch, so differing lengths are rejected up front.
+export function safeEqual(a: string, b: string) {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  if (bufA.length !== bufB.length) return false;
+  return crypto.timingSafeEqual(bufA, bufB);
+}
+
+// Verifies the `X-Shopify-Hmac-Sha256` header against the raw request body.
+export function verifyWebhookHmac(rawBody: string, hmacHeader: string | null) {
+  const secret = process.env.SHOPIFY_API_SECRET;
+  if (!secret) {
+    return { valid: false, message: 'Shopify API secret is not configured.' };
+  }
+  if (!hmacHeader) {
+    return { valid: false, message: 'No HMAC header present.' };
+  }
+
+  const hash = crypto.createHmac('sha256', secret).update(rawBody, 'utf8').digest('base64');
+  const valid = safeEqual(hash, hmacHeader);
+  return { valid, message: valid ? undefined : 'HMAC mismatch.' };
+}
+
+// Reads the body once and verifies it, so handlers never need to re-read the request stream.
+export async function verifyWebhookRequest(request: Request) {
+  const rawBody = await request.text();
+  const result = verifyWebhookHmac(rawBody, request.headers.get('x-shopify-hmac-sha256'));
+  return { ...result, rawBody };
+}
+
+// Verifies the `hmac` query parameter Shopify appends to OAuth redirects: every other parameter,
+// sorted by key and joined as `key=value&...`, signed with the app secret and hex-encoded.
+export function verifyOAuthHmac(searchParams: URLSearchParams) {
+  const secret = process.env.SHOPIFY_API_SECRET;
+  const hmac = searchParams.get('hmac');
+  if (!secret || !hmac) return false;
+
+  const message = Array.from(searchParams.entries())
+    .filter(([key]) => key !== 'hmac' && key !== 'signature')
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+  const digest = crypto.createHmac('sha256', secret).update(message, 'utf8').digest('hex');
+  return safeEqual(digest, hmac);
+}
@@ -0,0 +1,33 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createOAuthState, verifyOAuthState } from '@/lib/shopify-oauth';
+
+const NONCE = 'a1b2c3d4e5f6a7b8a1b2c3d4e5f6a7b8';
+
+beforeEach(() => {
+  vi.stubEnv('SHOPIFY_API_SECRET', 'test-shopify-secret');
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('OAuth state', () => {
+  it('verifies for the shop and nonce it was created for', () => {
+    const state = createOAuthState(NONCE, 'demo.myshopify.com');
+    expect(verifyOAuthState(state, NONCE, 'demo.myshopify.com')).toBe(true);
+  });
+
+  it('rejects a callback for a different shop', () => {
+    const state = createOAuthState(NONCE, 'demo.myshopify.com');
+    expect(verifyOAuthState(state, NONCE, 'other.myshopify.com')).toBe(false);
+  });
+
+  it('rejects a nonce that does not match the cookie', () => {
+    const state = createOAuthState(NONCE, 'demo.myshopify.com');
+    expect(verifyOAuthState(state, 'f'.repeat(32), 'demo.myshopify.com')).toBe(false);
+  });
+
+  it('rejects a bare nonce without a signature', () => {
+    expect(verifyOAuthState(NONCE, NONCE, 'demo.myshopify.com')).toBe(false);
+  });
+});
@@ -0,0 +1,55 @@
+import crypto from 'crypto';
+import { safeEqual } from '@/lib/shopify-hmac';
+
+export const OAUTH_STATE_COOKIE = 'shopify_oauth_state';
+export const OAUTH_STATE_COOKIE_PATH = '/api/auth/callback/shopify';
+export const OAUTH_STATE_MAX_AGE_SECONDS = 10 * 60;
+
+const DEFAULT_SCOPES = 'read_customers,read_orders,read_products';
+
+export function getAppUrl() {
+  return process.env.NEXTAUTH_URL || process.env.VERCEL_URL || 'http://localhost:3000';
+}
+
+// Shopify shop domains are always `<handle>.myshopify.com`; anything else could redirect the
+// code exchange (and our client secret) to an attacker-controlled host.
+export function isValidShopDomain(shop: string | null): shop is string {
+  return !!shop && /^[a-zA-Z0-9][a-zA-Z0-9-]*\.myshopify\.com$/.test(shop);
+}
+
+export function createOAuthNonce() {
+  return crypto.randomBytes(16).toString('hex');
+}
+
+function signState(nonce: string, shop: string) {
+  return crypto
+    .createHmac('sha256', process.env.SHOPIFY_API_SECRET || '')
+    .update(`${nonce}:${shop.toLowerCase()}`, 'utf8')
+    .digest('hex');
+}
+
+// The `state` sent to Shopify: the nonce plus an HMAC binding it to the shop being installed, so
+// a callback carrying our nonce for a different shop is rejected.
+export function createOAuthState(nonce: string, shop: string) {
+  return `${nonce}.${signState(nonce, shop)}`;
+}
+
+export function verifyOAuthState(state: string, expectedNonce: string, shop: string) {
+  const [nonce, signature] = state.split('.');
+  if (!nonce || !signature) return false;
+  return safeEqual(nonce, expectedNonce) && safeEqual(signature, signState(nonce, shop));
+}
+
+export function buildAuthorizeUrl(shop: string, nonce: string) {
+  const params = new URLSearchParams({
+    client_id: process.env.SHOPIFY_API_KEY || '',
+    scope: process.env.SHOPIFY_SCOPES || DEFAULT_SCOPES,
+    redirect_uri: `${getAppUrl()}${OAUTH_STATE_COOKIE_PATH}`,
+    state: createOAuthState(nonce, shop),
+  });
+  return `https://${shop}/admin/oauth/authorize?${params.toString()}`;
+}
+
+export function connectErrorUrl(error: string) {
+  return `${getAppUrl()}/connect?error=${encodeURIComponent(error)}`;
+}
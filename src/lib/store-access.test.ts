@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  currentUser: vi.fn(),
+  findCustomer: vi.fn(),
+  findStore: vi.fn(),
+  findStoreOrThrow: vi.fn(),
+  decryptToken: vi.fn(),
+}));
+
+vi.mock('@clerk/nextjs/server', () => ({ currentUser: mocks.currentUser }));
+vi.mock('@/lib/prisma', () => ({
+  default: {
+    customer: { findFirst: mocks.findCustomer },
+    store: { findUnique: mocks.findStore, findUniqueOrThrow: mocks.findStoreOrThrow, findFirst: vi.fn() },
+  },
+  withRetry: <T>(fn: () => Promise<T>) => fn(),
+}));
+vi.mock('@/lib/token-crypto', () => ({ decryptToken: mocks.decryptToken }));
+
+import { resolveCustomerAccess, resolveStoreAccess, withAccessToken } from '@/lib/store-access';
+
+const STORE = {
+  id: 'store-1',
+  shop: 'demo.myshopify.com',
+  userId: 'user-1',
+  currency: 'USD',
+  timezone: null,
+};
+
+beforeEach(() => {
+  mocks.currentUser.mockResolvedValue({ id: 'user-1' });
+  mocks.findStore.mockResolvedValue(STORE);
+});
+
+afterEach(() => {
+  vi.resetAllMocks();
+});
+
+describe('resolveCustomerAccess', () => {
+  it('returns 401 before looking the customer up when signed out', async () => {
+    mocks.currentUser.mockResolvedValue(null);
+    const access = await resolveCustomerAccess('cust-1');
+    expect(access.ok).toBe(false);
+    if (!access.ok) expect(access.response.status).toBe(401);
+    expect(mocks.findCustomer).not.toHaveBeenCalled();
+  });
+
+  it('scopes the lookup to the signed-in user and 404s when nothing matches', async () => {
+    mocks.findCustomer.mockResolvedValue(null);
+    const access = await resolveCustomerAccess('someone-elses-customer');
+    expect(mocks.findCustomer).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'someone-elses-customer', store: { userId: 'user-1' } } })
+    );
+    expect(access.ok).toBe(false);
+    if (!access.ok) expect(access.response.status).toBe(404);
+  });
+
+  it('404s when the customer belongs to a different store than the requested one', async () => {
+    mocks.findCustomer.mockResolvedValue({ storeId: 'store-1' });
+    const access = await resolveCustomerAccess('cust-1', 'store-2');
+    expect(access.ok).toBe(false);
+    if (!access.ok) expect(access.response.status).toBe(404);
+  });
+
+  it("resolves the customer's store", async () => {
+    mocks.findCustomer.mockResolvedValue({ storeId: 'store-1' });
+    const access = await resolveCustomerAccess('cust-1', 'store-1');
+    expect(access).toEqual({ ok: true, userId: 'user-1', store: STORE });
+  });
+});
+
+describe('resolveStoreAccess', () => {
+  it('neither loads nor decrypts the access token', async () => {
+    const access = await resolveStoreAccess('store-1');
+    expect(access).toEqual({ ok: true, userId: 'user-1', store: STORE });
+    expect(mocks.findStore.mock.calls[0][0].select).not.toHaveProperty('accessToken');
+    expect(mocks.decryptToken).not.toHaveBeenCalled();
+  });
+});
+
+describe('withAccessToken', () => {
+  it('adds the decrypted token for requests that call Shopify', async () => {
+    mocks.findStoreOrThrow.mockResolvedValue({ accessToken: 'enc:v1:secret' });
+    mocks.decryptToken.mockReturnValue('shpat_secret');
+    const store = await withAccessToken(STORE);
+    expect(store).toEqual({ ...STORE, accessToken: 'shpat_secret' });
+    expect(mocks.decryptToken).toHaveBeenCalledWith('enc:v1:secret');
+  });
+});
@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server';
+import { currentUser } from '@clerk/nextjs/server';
+import prisma, { withRetry } from '@/lib/prisma';
+import { decryptToken } from '@/lib/token-crypto';
+
+// The access token is deliberately not loaded: most requests only read synced data, and the few
+// that call Shopify fetch and decrypt it with withAccessToken.
+type OwnedStore = {
+  id: string;
+  shop: string;
+  userId: string;
+  currency: string | null;
+  timezone: string | null;
+};
+
+export type StoreAccess =
+  | { ok: true; userId: string; store: OwnedStore }
+  | { ok: false; response: NextResponse };
+
+export type UserAccess =
+  | { ok: true; userId: string }
+  | { ok: false; response: NextResponse };
+
+export async function requireUser(): Promise<UserAccess> {
+  const user = await currentUser();
+  if (!user?.id) {
+    return { ok: false, response: NextResponse.json({ error: 'Not authenticated' }, { status: 401 }) };
+  }
+  return { ok: true, userId: user.id };
+}
+
+// Resolves the store a request operates on and checks the signed-in user owns it.
+// With no storeId the user's first connected store is used; someone else's store is a 403.
+export async function resolveStoreAccess(storeId: string | null): Promise<StoreAccess> {
+  const auth = await requireUser();
+  if (!auth.ok) return auth;
+  const { userId } = auth;
+
+  const select = { id: true, shop: true, userId: true, currency: true, timezone: true };
+  const store = storeId
+    ? await withRetry(() => prisma.store.findUnique({ where: { id: storeId }, select }), 'store.findUnique')
+    : await withRetry(
+        () => prisma.store.findFirst({ where: { userId }, orderBy: { createdAt: 'asc' }, select }),
+        'store.findFirst(user)'
+      );
+
+  if (!store) {
+    const error = storeId ? 'Store not found for provided storeId.' : 'No store connected for this user.';
+    return { ok: false, response: NextResponse.json({ error }, { status: 404 }) };
+  }
+  if (store.userId !== userId) {
+    return { ok: false, response: NextResponse.json({ error: 'You do not have access to this store.' }, { status: 403 }) };
+  }
+
+  return { ok: true, userId, store };
+}
+
+// Adds the decrypted access token to a store resolved above, for requests that call Shopify
+export async function withAccessToken<T extends { id: string }>(store: T) {
+  const { accessToken } = await withRetry(
+    () => prisma.store.findUniqueOrThrow({ where: { id: store.id }, select: { accessToken: true } }),
+    'store.findUnique(token)'
+  );
+  return { ...store, accessToken: decryptToken(accessToken) };
+}
+
+// Resolves the store of a customer the signed-in user owns. Unknown customers, other users'
+// customers and customers outside the requested storeId all get the same 404, so customer ids
+// can't be probed across tenants.
+export async function resolveCustomerAccess(customerId: string, storeId: string | null = null): Promise<StoreAccess> {
+  const auth = await requireUser();
+  if (!auth.ok) return auth;
+
+  const customer = await withRetry(
+    () =>
+      prisma.customer.findFirst({
+        where: { id: customerId, store: { userId: auth.userId } },
+        select: { storeId: true },
+      }),
+    'customer.findFirst(owned)'
+  );
+  if (!customer || (storeId && storeId !== customer.storeId)) {
+    return { ok: false, response: NextResponse.json({ error: 'Customer not found' }, { status: 404 }) };
+  }
+  return resolveStoreAccess(customer.storeId);
+}
@@ -0,0 +1,32 @@
+import prisma, { withRetry } from '@/lib/prisma';
+
+// Per-store, per-resource `updated_at` high-water marks, shared by the REST and bulk sync paths.
+
+// A record updated while a sync runs may be fetched before the change yet still be older than the
+// newest record seen, so the mark is taken from when the fetch started, not from the data. The
+// margin also absorbs clock skew between us and Shopify; records inside it are simply re-upserted.
+const CURSOR_SAFETY_MARGIN_MS = 5 * 60 * 1000;
+
+export function cursorForSyncStartedAt(startedAt: Date) {
+  return new Date(startedAt.getTime() - CURSOR_SAFETY_MARGIN_MS);
+}
+
+export async function getSyncCursor(storeId: string, resource: string) {
+  const cursor = await withRetry(
+    () => prisma.syncCursor.findUnique({ where: { storeId_resource: { storeId, resource } } }),
+    'syncCursor.findUnique'
+  );
+  return cursor?.updatedAtMin ?? null;
+}
+
+export async function setSyncCursor(storeId: string, resource: string, updatedAtMin: Date) {
+  await withRetry(
+    () =>
+      prisma.syncCursor.upsert({
+        where: { storeId_resource: { storeId, resource } },
+        update: { updatedAtMin },
+        create: { storeId, resource, updatedAtMin },
+      }),
+    'syncCursor.upsert'
+  );
+}
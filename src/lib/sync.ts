@@ -0,0 +1,245 @@
+import prisma, { withRetry } from '@/lib/prisma';
+import { upsertCustomers, upsertOrders, upsertProducts } from '@/lib/ingest';
+import { ShopifyClient, type ShopifyListResources } from '@/lib/shopify-client';
+import { cursorForSyncStartedAt, getSyncCursor, setSyncCursor } from '@/lib/sync-cursor';
+import { runBulkSync } from '@/lib/bulk-sync';
+
+export type SyncStore = { id: string; shop: string; accessToken: string };
+
+const PAGE_LIMIT = 250;
+
+export type SyncResource = 'customers' | 'products' | 'orders';
+
+export type SyncProgress = {
+  resource: SyncResource;
+  page: number;
+  fetched: number;
+  total: number;
+};
+
+// Walks every page of a Shopify list endpoint, handing each page to `onPage` as it arrives
+// so large stores are ingested incrementally instead of being buffered in memory.
+async function fetchAllPages<R extends SyncResource>(
+  client: ShopifyClient,
+  resource: R,
+  query: Record<string, string>,
+  onPage: (items: ShopifyListResources[R][]) => Promise<void>,
+  onProgress?: (progress: SyncProgress) => void
+) {
+  let page = 0;
+  let total = 0;
+  for await (const items of client.paginate(resource, query)) {
+    page += 1;
+    total += items.length;
+    await onPage(items);
+    onProgress?.({ resource, page, fetched: items.length, total });
+  }
+  return total;
+}
+
+function logProgress({ resource, page, fetched, total }: SyncProgress) {
+  console.log(`[SYNC] ${resource} page ${page}: fetched ${fetched} (${total} so far).`);
+}
+
+// Syncs one resource, starting from its stored `updated_at` high-water mark when incremental.
+// The watermark only advances once every page has been ingested, so a failed run is retried in full.
+// It moves to when this run started fetching, so changes made mid-run are picked up next time.
+async function syncResource<R extends SyncResource>(
+  store: SyncStore,
+  resource: R,
+  query: Record<string, string>,
+  upsertPage: (storeId: string, items: ShopifyListResources[R][]) => Promise<unknown>,
+  onProgress: (progress: SyncProgress) => void,
+  incremental: boolean
+) {
+  const since = incremental ? await getSyncCursor(store.id, resource) : null;
+  const params: Record<string, string> = { ...query, limit: String(PAGE_LIMIT) };
+  // updated_at_min is inclusive; records on the boundary are re-upserted, which is harmless
+  if (since) params.updated_at_min = since.toISOString();
+
+  const watermark = cursorForSyncStartedAt(new Date());
+  const count = await fetchAllPages(
+    ShopifyClient.forStore(store),
+    resource,
+    params,
+    async (page) => {
+      await upsertPage(store.id, page);
+    },
+    onProgress
+  );
+
+  if (!since || watermark > since) {
+    await setSyncCursor(store.id, resource, watermark);
+  }
+  return count;
+}
+
+export async function syncHistoricalData(
+  store: SyncStore,
+  onProgress: (progress: SyncProgress) => void = logProgress,
+  { incremental = false }: { incremental?: boolean } = {}
+) {
+  console.log(`[SYNC] Starting ${incremental ? 'incremental' : 'historical'} data sync for ${store.shop}...`);
+  try {
+    // Customers and products first so that every order page can be linked to them
+    const customerCount = await syncResource(
+      store,
+      'customers',
+      {},
+      upsertCustomers,
+      onProgress,
+      incremental
+    );
+    console.log(`[SYNC] Upserted ${customerCount} customers.`);
+
+    const productCount = await syncResource(
+      store,
+      'products',
+      {},
+      upsertProducts,
+      onProgress,
+      incremental
+    );
+    console.log(`[SYNC] Upserted ${productCount} products.`);
+
+    const orderCount = await syncResource(
+      store,
+      'orders',
+      { status: 'any' },
+      upsertOrders,
+      onProgress,
+      incremental
+    );
+    console.log(`[SYNC] Upserted ${orderCount} orders.`);
+
+    console.log(`[SYNC] Sync completed for ${store.shop}`);
+    return { customers: customerCount, products: productCount, orders: orderCount };
+  } catch (error) {
+    console.error(`[SYNC] Error during historical sync for ${store.shop}:`, error);
+    throw error;
+  }
+}
+
+// historical: refetch everything; incremental: only records updated since the last stored watermark
+export type SyncJobKind = 'historical' | 'incremental';
+// skipped: a scheduled run that didn't start because another sync was still in progress
+export type SyncJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'skipped';
+export type SyncJobTrigger = 'manual' | 'schedule';
+
+// Per-store choice of how jobs fetch data: paginated REST, or GraphQL bulk operations for large stores
+export const BACKFILL_MODES = ['rest', 'bulk'] as const;
+export type BackfillMode = (typeof BACKFILL_MODES)[number];
+
+export function isBackfillMode(mode: unknown): mode is BackfillMode {
+  return BACKFILL_MODES.includes(mode as BackfillMode);
+}
+
+// A queued/running job older than this is treated as abandoned and no longer blocks new syncs
+const ACTIVE_SYNC_MAX_AGE_MS = 6 * 60 * 60 * 1000;
+
+// The store's queued or running sync, if any
+export async function findActiveSyncJob(storeId: string, now = new Date()) {
+  return withRetry(
+    () =>
+      prisma.syncJob.findFirst({
+        where: {
+          storeId,
+          status: { in: ['queued', 'running'] },
+          createdAt: { gt: new Date(now.getTime() - ACTIVE_SYNC_MAX_AGE_MS) },
+        },
+        orderBy: { createdAt: 'desc' },
+      }),
+    'syncJob.findFirst(active)'
+  );
+}
+
+export async function createSyncJob(storeId: string, kind: SyncJobKind = 'historical', trigger: SyncJobTrigger = 'manual') {
+  return withRetry(
+    () => prisma.syncJob.create({ data: { storeId, kind, trigger, status: 'queued' } }),
+    'syncJob.create'
+  );
+}
+
+// Runs a queued job to completion, recording progress and the final outcome on the SyncJob row.
+// Bulk jobs return while still running: their exports finish in the background (see bulk-sync).
+export async function runSyncJob(store: SyncStore, jobId: string) {
+  const job = await withRetry(
+    () => prisma.syncJob.update({ where: { id: jobId }, data: { status: 'running', startedAt: new Date() } }),
+    'syncJob.update(running)'
+  );
+
+  try {
+    const { backfillMode } = await withRetry(
+      () => prisma.store.findUniqueOrThrow({ where: { id: store.id }, select: { backfillMode: true } }),
+      'store.findUniqueOrThrow'
+    );
+    if (backfillMode === 'bulk') {
+      const current = await runBulkSync(store, job);
+      if (current.status === 'failed') throw new Error(current.error || 'Bulk sync failed');
+      return current;
+    }
+
+    const counts = await syncHistoricalData(store, (progress) => {
+      logProgress(progress);
+      const field = `${progress.resource}Synced` as const;
+      // Progress updates are best-effort; the final counts are written below
+      prisma.syncJob
+        .update({ where: { id: jobId }, data: { [field]: progress.total } })
+        .catch((e) => console.warn(`[SYNC] Failed to record progress for job ${jobId}:`, e));
+    }, { incremental: job.kind === 'incremental' });
+
+    return await withRetry(
+      () =>
+        prisma.syncJob.update({
+          where: { id: jobId },
+          data: {
+            status: 'succeeded',
+            customersSynced: counts.customers,
+            productsSynced: counts.products,
+            ordersSynced: counts.orders,
+            finishedAt: new Date(),
+          },
+        }),
+      'syncJob.update(succeeded)'
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await withRetry(
+      () =>
+        prisma.syncJob.update({
+          where: { id: jobId },
+          data: { status: 'failed', error: message, finishedAt: new Date() },
+        }),
+      'syncJob.update(failed)'
+    ).catch((e) => console.error(`[SYNC] Failed to record failure for job ${jobId}:`, e));
+    throw error;
+  }
+}
+
+export function serializeSyncJob(job: {
+  id: string;
+  storeId: string;
+  kind: string;
+  trigger: string;
+  status: string;
+  customersSynced: number;
+  productsSynced: number;
+  ordersSynced: number;
+  error: string | null;
+  createdAt: Date;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+}) {
+  return {
+    id: job.id,
+    storeId: job.storeId,
+    kind: job.kind,
+    trigger: job.trigger,
+    status: job.status,
+    counts: { customers: job.customersSynced, products: job.productsSynced, orders: job.ordersSynced },
+    error: job.error,
+    createdAt: job.createdAt.toISOString(),
+    startedAt: job.startedAt ? job.startedAt.toISOString() : null,
+    finishedAt: job.finishedAt ? job.finishedAt.toISOString() : null,
+  };
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { zonedDayRange } from '@/lib/timezone';
+import { bucketKey, bucketKeys, resolveTimeSeries } from '@/lib/time-series';
+
+const NEW_YORK = 'America/New_York';
+
+function range(startDate: string, endDate: string, timeZone = 'UTC') {
+  return zonedDayRange(startDate, endDate, timeZone)!;
+}
+
+describe('bucketKeys', () => {
+  it('lists every day of the range so days without orders are zero-filled', () => {
+    const keys = bucketKeys(range('2024-02-27', '2024-03-02'), 'day', 'UTC');
+    expect(keys).toEqual(['2024-02-27', '2024-02-28', '2024-02-29', '2024-03-01', '2024-03-02']);
+
+    // What the routes do with SQL rows: only two buckets had orders
+    const rows = [
+      { bucket: new Date('2024-02-28T00:00:00Z'), orders: 3 },
+      { bucket: new Date('2024-03-02T00:00:00Z'), orders: 1 },
+    ];
+    const counts = new Map(rows.map((row) => [bucketKey(row.bucket, 'day'), row.orders]));
+    expect(keys!.map((date) => counts.get(date) ?? 0)).toEqual([0, 3, 0, 0, 1]);
+  });
+
+  it('starts weeks on Monday and includes the partial weeks at either end', () => {
+    // 2024-03-06 is a Wednesday
+    expect(bucketKeys(range('2024-03-06', '2024-03-18'), 'week', 'UTC')).toEqual([
+      '2024-03-04',
+      '2024-03-11',
+      '2024-03-18',
+    ]);
+  });
+
+  it('aligns months and quarters to their first day', () => {
+    expect(bucketKeys(range('2024-01-15', '2024-03-10'), 'month', 'UTC')).toEqual([
+      '2024-01-01',
+      '2024-02-01',
+      '2024-03-01',
+    ]);
+    expect(bucketKeys(range('2024-02-15', '2024-08-10'), 'quarter', 'UTC')).toEqual([
+      '2024-01-01',
+      '2024-04-01',
+      '2024-07-01',
+    ]);
+  });
+
+  it("uses the store's local days rather than UTC days", () => {
+    expect(bucketKeys(range('2024-03-09', '2024-03-11', NEW_YORK), 'day', NEW_YORK)).toEqual([
+      '2024-03-09',
+      '2024-03-10',
+      '2024-03-11',
+    ]);
+  });
+
+  it('has no bucket for the hour skipped when clocks spring forward', () => {
+    const keys = bucketKeys(range('2024-03-10', '2024-03-10', NEW_YORK), 'hour', NEW_YORK)!;
+    expect(keys).toHaveLength(23);
+    expect(keys.slice(0, 3)).toEqual(['2024-03-10T00:00', '2024-03-10T01:00', '2024-03-10T03:00']);
+    expect(keys.at(-1)).toBe('2024-03-10T23:00');
+  });
+
+  it('has one bucket for the hour repeated when clocks fall back', () => {
+    // Both 01:00 hours share a wall-clock bucket in SQL, so they share a key too
+    const keys = bucketKeys(range('2024-11-03', '2024-11-03', NEW_YORK), 'hour', NEW_YORK)!;
+    expect(keys).toHaveLength(24);
+    expect(keys.filter((key) => key === '2024-11-03T01:00')).toHaveLength(1);
+  });
+
+  it('gives up on ranges with too many buckets', () => {
+    expect(bucketKeys(range('2020-01-01', '2024-12-31'), 'hour', 'UTC')).toBeNull();
+  });
+});
+
+describe('resolveTimeSeries', () => {
+  it('defaults to daily buckets and rejects unknown or oversized granularities', () => {
+    const daily = resolveTimeSeries(new URLSearchParams(), range('2024-03-01', '2024-03-02'), 'UTC');
+    expect(daily).toEqual({ ok: true, granularity: 'day', keys: ['2024-03-01', '2024-03-02'] });
+
+    const unknown = resolveTimeSeries(new URLSearchParams('granularity=year'), range('2024-03-01', '2024-03-02'), 'UTC');
+    expect(unknown.ok).toBe(false);
+    if (!unknown.ok) expect(unknown.response.status).toBe(400);
+
+    const tooMany = resolveTimeSeries(new URLSearchParams('granularity=hour'), range('2020-01-01', '2024-12-31'), 'UTC');
+    expect(tooMany.ok).toBe(false);
+    if (!tooMany.ok) expect(tooMany.response.status).toBe(400);
+  });
+});
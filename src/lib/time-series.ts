@@ -0,0 +1,99 @@
+import { NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { zonedParts, zonedTimeToUtc } from '@/lib/timezone';
+
+// Bucketing for the time-series insights. Orders are grouped in SQL with date_trunc on their
+// wall-clock time in the store's timezone; routes then fill the buckets no order fell into, so
+// every series covers the whole range in order. Bucket keys are the bucket's local start:
+// `YYYY-MM-DDTHH:00` for hours and `YYYY-MM-DD` otherwise (weeks start on Monday).
+
+export const GRANULARITIES = ['hour', 'day', 'week', 'month', 'quarter'] as const;
+export type Granularity = (typeof GRANULARITIES)[number];
+
+// Keeps an hourly series over a long range from producing an unbounded response
+const MAX_BUCKETS = 2000;
+
+export type TimeSeriesParam =
+  | { ok: true; granularity: Granularity; keys: string[] }
+  | { ok: false; response: NextResponse };
+
+// Reads `granularity` (default day) and lists the range's bucket keys
+export function resolveTimeSeries(
+  searchParams: URLSearchParams,
+  range: { gte: Date; lt: Date },
+  timeZone: string
+): TimeSeriesParam {
+  const granularity = (searchParams.get('granularity') || 'day') as Granularity;
+  if (!GRANULARITIES.includes(granularity)) {
+    const error = `granularity must be one of: ${GRANULARITIES.join(', ')}`;
+    return { ok: false, response: NextResponse.json({ error }, { status: 400 }) };
+  }
+  const keys = bucketKeys(range, granularity, timeZone);
+  if (!keys) {
+    const error = `Date range has more than ${MAX_BUCKETS} ${granularity} buckets; use a coarser granularity.`;
+    return { ok: false, response: NextResponse.json({ error }, { status: 400 }) };
+  }
+  return { ok: true, granularity, keys };
+}
+
+// SQL expression for the local start of a timestamp column's bucket. Prisma stores DateTime as
+// UTC `timestamp`, hence the double AT TIME ZONE.
+export function bucketSql(column: Prisma.Sql, granularity: Granularity, timeZone: string) {
+  return Prisma.sql`date_trunc(${granularity}, ${column} AT TIME ZONE 'UTC' AT TIME ZONE ${timeZone})`;
+}
+
+// Key of a bucket returned by bucketSql; Prisma reads the zone-less local timestamp as UTC
+export function bucketKey(bucket: Date, granularity: Granularity) {
+  const iso = bucket.toISOString();
+  return granularity === 'hour' ? `${iso.slice(0, 13)}:00` : iso.slice(0, 10);
+}
+
+// Local wall-clock time as a UTC Date, so calendar steps can use the UTC setters
+function wallClock(date: Date, timeZone: string) {
+  const p = zonedParts(date, timeZone);
+  return new Date(Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second));
+}
+
+function truncate(date: Date, granularity: Granularity) {
+  const d = new Date(date);
+  d.setUTCMinutes(0, 0, 0);
+  if (granularity === 'hour') return d;
+  d.setUTCHours(0);
+  if (granularity === 'week') d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+  if (granularity === 'month' || granularity === 'quarter') d.setUTCDate(1);
+  if (granularity === 'quarter') d.setUTCMonth(d.getUTCMonth() - (d.getUTCMonth() % 3));
+  return d;
+}
+
+function step(date: Date, granularity: Granularity) {
+  const d = new Date(date);
+  if (granularity === 'hour') d.setUTCHours(d.getUTCHours() + 1);
+  else if (granularity === 'day') d.setUTCDate(d.getUTCDate() + 1);
+  else if (granularity === 'week') d.setUTCDate(d.getUTCDate() + 7);
+  else d.setUTCMonth(d.getUTCMonth() + (granularity === 'month' ? 1 : 3));
+  return d;
+}
+
+// Whether a local hour happens at all; the one skipped when clocks spring forward does not
+function hourExists(bucket: Date, timeZone: string) {
+  const instant = zonedTimeToUtc(
+    timeZone,
+    bucket.getUTCFullYear(),
+    bucket.getUTCMonth() + 1,
+    bucket.getUTCDate(),
+    bucket.getUTCHours()
+  );
+  return wallClock(instant, timeZone).getTime() === bucket.getTime();
+}
+
+// Every bucket overlapping the range, or null when there are more than MAX_BUCKETS
+export function bucketKeys(range: { gte: Date; lt: Date }, granularity: Granularity, timeZone: string) {
+  const end = wallClock(range.lt, timeZone);
+  const keys: string[] = [];
+  for (let bucket = truncate(wallClock(range.gte, timeZone), granularity); bucket < end; bucket = step(bucket, granularity)) {
+    if (granularity === 'hour' && !hourExists(bucket, timeZone)) continue;
+    if (keys.length === MAX_BUCKETS) return null;
+    keys.push(bucketKey(bucket, granularity));
+  }
+  return keys;
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { resolveTimeZone, zonedDateKey, zonedDayRange, zonedMonthRange, zonedTimeToUtc } from '@/lib/timezone';
+
+const NEW_YORK = 'America/New_York';
+
+describe('zonedDayRange', () => {
+  it('covers the 23-hour day when clocks spring forward', () => {
+    // 2024-03-10: 02:00 EST jumps to 03:00 EDT
+    expect(zonedDayRange('2024-03-10', '2024-03-10', NEW_YORK)).toEqual({
+      gte: new Date('2024-03-10T05:00:00Z'),
+      lt: new Date('2024-03-11T04:00:00Z'),
+    });
+  });
+
+  it('covers the 25-hour day when clocks fall back', () => {
+    // 2024-11-03: 02:00 EDT falls back to 01:00 EST
+    expect(zonedDayRange('2024-11-03', '2024-11-03', NEW_YORK)).toEqual({
+      gte: new Date('2024-11-03T04:00:00Z'),
+      lt: new Date('2024-11-04T05:00:00Z'),
+    });
+  });
+
+  it('spans a DST change inside a multi-day range', () => {
+    const range = zonedDayRange('2024-03-09', '2024-03-11', NEW_YORK)!;
+    expect(range.gte).toEqual(new Date('2024-03-09T05:00:00Z'));
+    expect(range.lt).toEqual(new Date('2024-03-12T04:00:00Z'));
+  });
+
+  it('rejects malformed dates', () => {
+    expect(zonedDayRange('03/10/2024', '2024-03-10', NEW_YORK)).toBeNull();
+  });
+});
+
+describe('zonedDateKey', () => {
+  it("buckets orders by the store's calendar day on either side of the DST change", () => {
+    // Late evening local time still belongs to the local day, before and after the change
+    expect(zonedDateKey(new Date('2024-03-10T04:30:00Z'), NEW_YORK)).toBe('2024-03-09');
+    expect(zonedDateKey(new Date('2024-03-10T05:00:00Z'), NEW_YORK)).toBe('2024-03-10');
+    expect(zonedDateKey(new Date('2024-03-11T03:59:00Z'), NEW_YORK)).toBe('2024-03-10');
+    expect(zonedDateKey(new Date('2024-03-11T04:00:00Z'), NEW_YORK)).toBe('2024-03-11');
+  });
+
+  it('handles zones that are ahead of UTC', () => {
+    expect(zonedDateKey(new Date('2024-01-31T19:00:00Z'), 'Asia/Kolkata')).toBe('2024-02-01');
+  });
+});
+
+describe('zonedTimeToUtc', () => {
+  it('resolves a time skipped by DST to just after the gap', () => {
+    expect(zonedTimeToUtc(NEW_YORK, 2024, 3, 10, 2, 30)).toEqual(new Date('2024-03-10T07:30:00Z'));
+  });
+
+  it('maps the hours just after the DST gap to their own instant', () => {
+    expect(zonedTimeToUtc(NEW_YORK, 2024, 3, 10, 3)).toEqual(new Date('2024-03-10T07:00:00Z'));
+    expect(zonedTimeToUtc(NEW_YORK, 2024, 3, 10, 6, 30)).toEqual(new Date('2024-03-10T10:30:00Z'));
+    expect(zonedTimeToUtc('Europe/Berlin', 2024, 3, 31, 3)).toEqual(new Date('2024-03-31T01:00:00Z'));
+  });
+
+  it('normalises day overflow into the next month', () => {
+    expect(zonedTimeToUtc(NEW_YORK, 2024, 2, 30)).toEqual(new Date('2024-03-01T05:00:00Z'));
+  });
+});
+
+describe('zonedMonthRange', () => {
+  it('bounds the local month, whose offset changes part-way through', () => {
+    const month = zonedMonthRange(new Date('2024-03-15T12:00:00Z'), NEW_YORK);
+    expect(month).toEqual({
+      year: 2024,
+      month: 3,
+      gte: new Date('2024-03-01T05:00:00Z'),
+      lt: new Date('2024-04-01T04:00:00Z'),
+    });
+  });
+});
+
+describe('resolveTimeZone', () => {
+  it("falls back to the store's timezone, then UTC, and rejects unknown zones", () => {
+    expect(resolveTimeZone(new URLSearchParams(), { timezone: NEW_YORK })).toEqual({ ok: true, timeZone: NEW_YORK });
+    expect(resolveTimeZone(new URLSearchParams(), { timezone: null })).toEqual({ ok: true, timeZone: 'UTC' });
+    const invalid = resolveTimeZone(new URLSearchParams('tz=Mars/Olympus'), { timezone: null });
+    expect(invalid.ok).toBe(false);
+    if (!invalid.ok) expect(invalid.response.status).toBe(400);
+  });
+});
@@ -0,0 +1,137 @@
+import { NextResponse } from 'next/server';
+
+// Calendar maths in a shop's timezone. Insights take dates as YYYY-MM-DD in the store's IANA
+// timezone (`?tz=` overrides it; stores connected before it was recorded fall back to UTC), so
+// day boundaries and buckets match what the merchant sees in Shopify.
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string) {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string) {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export type TimeZoneParam = { ok: true; timeZone: string } | { ok: false; response: NextResponse };
+
+export function resolveTimeZone(searchParams: URLSearchParams, store: { timezone: string | null }): TimeZoneParam {
+  const requested = searchParams.get('tz');
+  if (!requested) return { ok: true, timeZone: store.timezone || DEFAULT_TIMEZONE };
+  if (!isValidTimeZone(requested)) {
+    const error = 'tz must be an IANA timezone such as Asia/Kolkata or America/Los_Angeles';
+    return { ok: false, response: NextResponse.json({ error }, { status: 400 }) };
+  }
+  return { ok: true, timeZone: requested };
+}
+
+// Wall-clock fields of an instant in the given timezone
+export function zonedParts(date: Date, timeZone: string) {
+  const parts = Object.fromEntries(
+    formatterFor(timeZone)
+      .formatToParts(date)
+      .filter((p) => p.type !== 'literal')
+      .map((p) => [p.type, Number(p.value)])
+  );
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+// How far the timezone's wall clock is ahead of UTC at this instant
+function offsetMs(date: Date, timeZone: string) {
+  const p = zonedParts(date, timeZone);
+  const wallClock = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// The instant a wall-clock time occurs in the timezone. Month/day overflow is normalised
+// (day 0 is the previous month's last day); times skipped by DST resolve to just after the gap.
+export function zonedTimeToUtc(
+  timeZone: string,
+  year: number,
+  month: number,
+  day: number,
+  hour = 0,
+  minute = 0
+) {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const first = wallClock - offsetMs(new Date(wallClock), timeZone);
+  const second = wallClock - offsetMs(new Date(first), timeZone);
+  // Near a DST change the two guesses differ; keep the one that shows this wall-clock time
+  const exact = [first, second].filter((instant) => wallClock - offsetMs(new Date(instant), timeZone) === instant);
+  return new Date(exact.length ? Math.min(...exact) : Math.max(first, second));
+}
+
+// YYYY-MM-DD of the instant's calendar day in the timezone
+export function zonedDateKey(date: Date, timeZone: string) {
+  const { year, month, day } = zonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function parseDateParam(value: string) {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value);
+  if (!match) return null;
+  return { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+}
+
+// Filter bounds covering startDate through endDate (inclusive, YYYY-MM-DD) in the timezone,
+// or null when either date is malformed
+export function zonedDayRange(startDate: string, endDate: string, timeZone: string) {
+  const start = parseDateParam(startDate);
+  const end = parseDateParam(endDate);
+  if (!start || !end) return null;
+  return {
+    gte: zonedTimeToUtc(timeZone, start.year, start.month, start.day),
+    lt: zonedTimeToUtc(timeZone, end.year, end.month, end.day + 1),
+  };
+}
+
+export type DayRangeParam = { ok: true; range: { gte: Date; lt: Date } } | { ok: false; response: NextResponse };
+
+export function resolveDayRange(startDate: string, endDate: string, timeZone: string): DayRangeParam {
+  const range = zonedDayRange(startDate, endDate, timeZone);
+  if (!range || range.lt <= range.gte) {
+    const error = 'startDate and endDate must be YYYY-MM-DD dates, with startDate on or before endDate';
+    return { ok: false, response: NextResponse.json({ error }, { status: 400 }) };
+  }
+  return { ok: true, range };
+}
+
+// Bounds of the calendar month containing `now` in the timezone
+export function zonedMonthRange(now: Date, timeZone: string) {
+  const { year, month } = zonedParts(now, timeZone);
+  return {
+    year,
+    month,
+    gte: zonedTimeToUtc(timeZone, year, month, 1),
+    lt: zonedTimeToUtc(timeZone, year, month + 1, 1),
+  };
+}
@@ -0,0 +1,64 @@
+import crypto from 'crypto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { decryptToken, encryptToken, getTokenKeyId, withDecryptedToken } from '@/lib/token-crypto';
+
+const OLD_KEY = crypto.randomBytes(32).toString('base64');
+const NEW_KEY = crypto.randomBytes(32).toString('base64');
+
+function useKeys(activeKeyId: string, keys: Record<string, string>) {
+  vi.stubEnv(
+    'TOKEN_ENCRYPTION_KEYS',
+    Object.entries(keys)
+      .map(([keyId, key]) => `${keyId}:${key}`)
+      .join(',')
+  );
+  vi.stubEnv('TOKEN_ENCRYPTION_KEY_ID', activeKeyId);
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('token encryption', () => {
+  it('round-trips a token and never stores the plaintext', () => {
+    useKeys('v1', { v1: OLD_KEY });
+    const stored = encryptToken('shpat_secret');
+    expect(stored).toMatch(/^enc:v1:/);
+    expect(stored).not.toContain('shpat_secret');
+    expect(decryptToken(stored)).toBe('shpat_secret');
+  });
+
+  it('keeps tokens under a retired key readable after rotating to a new one', () => {
+    useKeys('v1', { v1: OLD_KEY });
+    const underOldKey = encryptToken('shpat_old');
+
+    useKeys('v2', { v1: OLD_KEY, v2: NEW_KEY });
+    const underNewKey = encryptToken('shpat_new');
+    expect(getTokenKeyId(underOldKey)).toBe('v1');
+    expect(getTokenKeyId(underNewKey)).toBe('v2');
+    expect(decryptToken(underOldKey)).toBe('shpat_old');
+    expect(decryptToken(underNewKey)).toBe('shpat_new');
+
+    // Re-encrypting, as tokens:rotate does, moves the token onto the active key
+    const rotated = encryptToken(decryptToken(underOldKey));
+    expect(getTokenKeyId(rotated)).toBe('v2');
+    useKeys('v2', { v2: NEW_KEY });
+    expect(decryptToken(rotated)).toBe('shpat_old');
+    expect(() => decryptToken(underOldKey)).toThrow('Token encryption key v1 is not configured');
+  });
+
+  it('rejects a token that was tampered with', () => {
+    useKeys('v1', { v1: OLD_KEY });
+    const parts = encryptToken('shpat_secret').split(':');
+    parts[4] = Buffer.from('shpat_forged').toString('base64');
+    expect(() => decryptToken(parts.join(':'))).toThrow();
+  });
+
+  it('passes legacy plaintext tokens through until they are migrated', () => {
+    expect(getTokenKeyId('shpat_legacy')).toBeNull();
+    expect(withDecryptedToken({ id: 'store-1', accessToken: 'shpat_legacy' })).toEqual({
+      id: 'store-1',
+      accessToken: 'shpat_legacy',
+    });
+  });
+});
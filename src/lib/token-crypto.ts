@@ -0,0 +1,77 @@
+import crypto from 'crypto';
+
+// At-rest encryption for Shopify access tokens (AES-256-GCM).
+// Keys come from TOKEN_ENCRYPTION_KEYS as comma-separated `keyId:base64Key` pairs (32-byte keys);
+// TOKEN_ENCRYPTION_KEY_ID picks the key new tokens are written with. Each stored value records
+// the key id it was encrypted under, so old keys stay readable until `npm run tokens:rotate`
+// has re-encrypted everything:
+//   enc:<keyId>:<iv>:<authTag>:<ciphertext>   (base64 parts)
+
+const PREFIX = 'enc';
+const IV_BYTES = 12;
+const KEY_BYTES = 32;
+
+function loadKeys() {
+  const keys = new Map<string, Buffer>();
+  for (const entry of (process.env.TOKEN_ENCRYPTION_KEYS || '').split(',')) {
+    const [keyId, encoded] = entry.trim().split(':');
+    if (!keyId || !encoded) continue;
+    const key = Buffer.from(encoded, 'base64');
+    if (key.length !== KEY_BYTES) {
+      throw new Error(`Token encryption key ${keyId} must be ${KEY_BYTES} bytes (base64-encoded).`);
+    }
+    keys.set(keyId, key);
+  }
+  return keys;
+}
+
+export function getActiveKeyId() {
+  const keyId = process.env.TOKEN_ENCRYPTION_KEY_ID;
+  if (!keyId) {
+    throw new Error('TOKEN_ENCRYPTION_KEY_ID is not configured.');
+  }
+  return keyId;
+}
+
+function getKey(keyId: string) {
+  const key = loadKeys().get(keyId);
+  if (!key) {
+    throw new Error(`Token encryption key ${keyId} is not configured in TOKEN_ENCRYPTION_KEYS.`);
+  }
+  return key;
+}
+
+export function isEncryptedToken(stored: string) {
+  return stored.startsWith(`${PREFIX}:`);
+}
+
+// The key id a stored token was encrypted under, or null for a legacy plaintext token
+export function getTokenKeyId(stored: string) {
+  return isEncryptedToken(stored) ? stored.split(':')[1] : null;
+}
+
+export function encryptToken(plaintext: string) {
+  const keyId = getActiveKeyId();
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getKey(keyId), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return [PREFIX, keyId, iv.toString('base64'), cipher.getAuthTag().toString('base64'), ciphertext.toString('base64')].join(':');
+}
+
+// Plaintext tokens written before encryption was introduced are returned as-is until
+// `npm run tokens:encrypt` has migrated them.
+export function decryptToken(stored: string) {
+  if (!isEncryptedToken(stored)) return stored;
+
+  const [, keyId, iv, authTag, ciphertext] = stored.split(':');
+  if (!keyId || !iv || !authTag || !ciphertext) {
+    throw new Error('Stored access token is malformed.');
+  }
+  const decipher = crypto.createDecipheriv('aes-256-gcm', getKey(keyId), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(authTag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+}
+
+export function withDecryptedToken<T extends { accessToken: string }>(store: T): T {
+  return { ...store, accessToken: decryptToken(store.accessToken) };
+}
@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Prisma } from '@prisma/client';
+
+const mocks = vi.hoisted(() => ({
+  update: vi.fn(),
+  updateMany: vi.fn(),
+  dispatchWebhook: vi.fn(),
+  dispatchComplianceWebhook: vi.fn(),
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  default: { webhookEvent: { update: mocks.update, updateMany: mocks.updateMany } },
+  withRetry: <T>(fn: () => Promise<T>) => fn(),
+}));
+vi.mock('@/lib/token-crypto', () => ({ withDecryptedToken: <T>(store: T) => store }));
+vi.mock('@/lib/webhooks', () => ({
+  dispatchWebhook: mocks.dispatchWebhook,
+  dispatchComplianceWebhook: mocks.dispatchComplianceWebhook,
+  isComplianceTopic: (topic: string) => topic === 'customers/data_request',
+  isWebhookTopic: () => true,
+}));
+
+import { processWebhookEvent } from '@/lib/webhook-events';
+
+const STORE = { id: 'store-1', shop: 'demo.myshopify.com', accessToken: 'token' };
+
+function event(overrides = {}) {
+  return { id: 'evt-1', topic: 'orders/create', shop: STORE.shop, status: 'pending', store: STORE, ...overrides };
+}
+
+afterEach(() => {
+  vi.resetAllMocks();
+});
+
+describe('processWebhookEvent', () => {
+  it('drops the payload once the event is processed', async () => {
+    mocks.update.mockResolvedValue(event({ payload: { id: 1, email: 'jane@example.com' } }));
+    await processWebhookEvent('evt-1');
+    expect(mocks.updateMany).toHaveBeenCalledWith({
+      where: { id: 'evt-1' },
+      data: expect.objectContaining({ status: 'processed', payload: Prisma.DbNull }),
+    });
+  });
+
+  it('keeps the payload of a failed event so it can be replayed', async () => {
+    mocks.update.mockResolvedValue(event({ payload: { id: 1 } }));
+    mocks.dispatchWebhook.mockRejectedValue(new Error('boom'));
+    await expect(processWebhookEvent('evt-1')).rejects.toThrow('boom');
+    expect(mocks.updateMany).toHaveBeenCalledWith({
+      where: { id: 'evt-1' },
+      data: { status: 'failed', error: 'boom' },
+    });
+  });
+
+  it('stores the data gathered for a data request where the merchant can retrieve it', async () => {
+    const result = { dataRequestId: '9', customerId: '42', customer: { email: 'jane@example.com' }, orders: [] };
+    mocks.update.mockResolvedValue(event({ topic: 'customers/data_request', payload: { customer: { id: 42 } } }));
+    mocks.dispatchComplianceWebhook.mockResolvedValue(result);
+    await processWebhookEvent('evt-1');
+    expect(mocks.updateMany).toHaveBeenCalledWith({
+      where: { id: 'evt-1' },
+      data: expect.objectContaining({ status: 'processed', payload: Prisma.DbNull, result }),
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import crypto from 'crypto';
+import { Prisma, type WebhookEvent } from '@prisma/client';
+import prisma, { withRetry } from '@/lib/prisma';
+import { withDecryptedToken } from '@/lib/token-crypto';
+import { dispatchComplianceWebhook, dispatchWebhook, isComplianceTopic, isWebhookTopic } from '@/lib/webhooks';
+
+// Persistent log of webhook deliveries. Routes record each verified delivery before queueing it;
+// the worker processes events by id, so a replay simply re-queues the stored payload. Payloads
+// carry customer data, so they are dropped once an event is processed and only failed events,
+// which may be replayed, keep theirs. Data gathered for a customers/data_request is kept in
+// `result` until the customer is redacted.
+
+export type WebhookEventStatus = 'pending' | 'processed' | 'failed';
+
+// Records a delivery, or returns null when this webhook id was already received (a Shopify retry)
+export async function recordWebhookEvent({
+  webhookId,
+  topic,
+  shop,
+  rawBody,
+  storeId,
+}: {
+  webhookId: string | null;
+  topic: string;
+  shop: string;
+  rawBody: string;
+  storeId: string | null;
+}) {
+  const payloadHash = crypto.createHash('sha256').update(rawBody, 'utf8').digest('hex');
+  try {
+    return await withRetry(
+      () =>
+        prisma.webhookEvent.create({
+          data: {
+            // Shopify always sends the header; the hash keeps hand-crafted deliveries idempotent too
+            webhookId: webhookId || `${topic}:${payloadHash}`,
+            topic,
+            shop,
+            payloadHash,
+            payload: JSON.parse(rawBody),
+            storeId,
+          },
+        }),
+      'webhookEvent.create'
+    );
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      console.log(`[WEBHOOK] Duplicate delivery ${webhookId} (${topic}) from ${shop} ignored.`);
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Runs an event through the topic handlers and records the outcome. Errors are rethrown so the
+// queue retries; outcomes use updateMany because app/uninstalled deletes its own event via cascade.
+export async function processWebhookEvent(eventId: string) {
+  const event = await withRetry(
+    () =>
+      prisma.webhookEvent.update({
+        where: { id: eventId },
+        data: { attempts: { increment: 1 } },
+        include: { store: { select: { id: true, shop: true, accessToken: true } } },
+      }),
+    'webhookEvent.update(attempt)'
+  ).catch((error) => {
+    // Already gone: the store was disconnected and its events removed
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') return null;
+    throw error;
+  });
+  if (!event || event.status === 'processed') return;
+
+  const store = event.store && withDecryptedToken(event.store);
+  try {
+    if (event.payload === null) throw new Error('Payload is no longer stored.');
+    let result: Prisma.InputJsonObject | null = null;
+    if (isComplianceTopic(event.topic)) {
+      result = await dispatchComplianceWebhook(event.topic, store, event.payload);
+    } else if (isWebhookTopic(event.topic)) {
+      if (!store) throw new Error(`Store ${event.shop} is no longer connected.`);
+      await dispatchWebhook(event.topic, store, event.payload);
+    } else {
+      throw new Error(`Unsupported topic: ${event.topic}`);
+    }
+
+    await withRetry(
+      () =>
+        prisma.webhookEvent.updateMany({
+          where: { id: eventId },
+          data: {
+            status: 'processed',
+            error: null,
+            payload: Prisma.DbNull,
+            ...(result ? { result } : {}),
+            processedAt: new Date(),
+          },
+        }),
+      'webhookEvent.update(processed)'
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await withRetry(
+      () => prisma.webhookEvent.updateMany({ where: { id: eventId }, data: { status: 'failed', error: message } }),
+      'webhookEvent.update(failed)'
+    );
+    throw error;
+  }
+}
+
+// Puts a failed event back to pending ahead of re-queueing it; false if it isn't in a failed state
+export async function resetWebhookEventForReplay(eventId: string) {
+  const { count } = await withRetry(
+    () =>
+      prisma.webhookEvent.updateMany({
+        where: { id: eventId, status: 'failed' },
+        data: { status: 'pending', error: null },
+      }),
+    'webhookEvent.update(replay)'
+  );
+  return count > 0;
+}
+
+export function serializeWebhookEvent(event: Omit<WebhookEvent, 'payload' | 'result'>) {
+  return {
+    id: event.id,
+    webhookId: event.webhookId,
+    topic: event.topic,
+    shop: event.shop,
+    storeId: event.storeId,
+    status: event.status,
+    error: event.error,
+    attempts: event.attempts,
+    payloadHash: event.payloadHash,
+    receivedAt: event.receivedAt.toISOString(),
+    processedAt: event.processedAt ? event.processedAt.toISOString() : null,
+  };
+}
@@ -0,0 +1,172 @@
+import type { Prisma } from '@prisma/client';
+import prisma, { withRetry } from '@/lib/prisma';
+import {
+  upsertCustomers,
+  upsertOrders,
+  upsertProducts,
+  type ShopifyCustomer,
+  type ShopifyOrder,
+  type ShopifyProduct,
+} from '@/lib/ingest';
+import { getAppUrl } from '@/lib/shopify-oauth';
+import { ShopifyClient } from '@/lib/shopify-client';
+import { handleBulkOperationFinish } from '@/lib/bulk-sync';
+import { collectCustomerData, deleteStoreData, redactCustomer, redactShop } from '@/lib/data-deletion';
+
+type WebhookStore = { id: string; shop: string; accessToken: string };
+
+type ShopifyRefund = { id: number | string; order_id: number | string };
+
+type WebhookHandler = (store: WebhookStore, payload: unknown) => Promise<void>;
+
+async function ingestOrder(store: WebhookStore, payload: unknown) {
+  const order = payload as ShopifyOrder;
+  // Create or update the customer first so the order can link to it
+  if (order.customer) {
+    await upsertCustomers(store.id, [order.customer]);
+  }
+  await upsertOrders(store.id, [order]);
+}
+
+// Refund payloads don't carry the updated order totals/status, so refetch the order itself
+async function ingestRefund(store: WebhookStore, payload: unknown) {
+  const refund = payload as ShopifyRefund;
+  const order = await ShopifyClient.forStore(store).getOrder(refund.order_id);
+  await ingestOrder(store, order);
+}
+
+async function ingestCustomer(store: WebhookStore, payload: unknown) {
+  await upsertCustomers(store.id, [payload as ShopifyCustomer]);
+}
+
+async function ingestProduct(store: WebhookStore, payload: unknown) {
+  await upsertProducts(store.id, [payload as ShopifyProduct]);
+}
+
+async function deleteProduct(store: WebhookStore, payload: unknown) {
+  const { id } = payload as { id: number | string };
+  // Order items keep their title/price; the optional product relation is nulled on delete
+  await withRetry(
+    () => prisma.product.deleteMany({ where: { storeId: store.id, shopifyId: String(id) } }),
+    'product.deleteMany'
+  );
+}
+
+// The access token is revoked on uninstall, so the store and its data (via cascade) are removed
+async function uninstallApp(store: WebhookStore) {
+  await deleteStoreData(store.id);
+  console.log(`[WEBHOOK] App uninstalled from ${store.shop}; store removed.`);
+}
+
+const handlers = {
+  'orders/create': ingestOrder,
+  'orders/updated': ingestOrder,
+  'orders/cancelled': ingestOrder,
+  'orders/paid': ingestOrder,
+  'refunds/create': ingestRefund,
+  'customers/create': ingestCustomer,
+  'customers/update': ingestCustomer,
+  'products/create': ingestProduct,
+  'products/update': ingestProduct,
+  'products/delete': deleteProduct,
+  'app/uninstalled': uninstallApp,
+  'bulk_operations/finish': handleBulkOperationFinish,
+} satisfies Record<string, WebhookHandler>;
+
+export type WebhookTopic = keyof typeof handlers;
+
+export const WEBHOOK_TOPICS = Object.keys(handlers) as WebhookTopic[];
+
+export function isWebhookTopic(topic: string): topic is WebhookTopic {
+  return Object.prototype.hasOwnProperty.call(handlers, topic);
+}
+
+export async function dispatchWebhook(topic: WebhookTopic, store: WebhookStore, payload: unknown) {
+  await handlers[topic](store, payload);
+}
+
+export function getWebhookAddress() {
+  return `${getAppUrl()}/api/webhooks/shopify`;
+}
+
+// Registers every supported topic against the shared webhook endpoint. Failures are logged per
+// topic rather than thrown so a single rejected subscription doesn't abort the install.
+export async function registerWebhooks(shop: string, accessToken: string) {
+  const address = getWebhookAddress();
+  const client = new ShopifyClient(shop, accessToken);
+
+  for (const topic of WEBHOOK_TOPICS) {
+    try {
+      await client.createWebhook(topic, address);
+      console.log(`Webhook ${topic} registered successfully for ${shop}`);
+    } catch (error) {
+      console.error(`Error registering webhook ${topic} for ${shop}:`, error);
+    }
+  }
+}
+
+// Mandatory GDPR compliance topics. Shopify sends these to the compliance URL configured on the
+// app (they cannot be subscribed through the Admin API), and they may arrive after the store row
+// is gone, so handlers receive the store only when we still have it.
+
+type CompliancePayload = {
+  shop_domain: string;
+  customer?: { id: number | string; email?: string | null };
+  orders_requested?: (number | string)[];
+  orders_to_redact?: (number | string)[];
+  data_request?: { id: number | string };
+};
+
+// A handler's result is stored on the webhook event, where the merchant can retrieve it
+type ComplianceHandler = (
+  store: WebhookStore | null,
+  payload: CompliancePayload
+) => Promise<Prisma.InputJsonObject | void>;
+
+const complianceHandlers = {
+  'customers/data_request': async (store, payload) => {
+    if (!store || !payload.customer) return;
+    const data = await collectCustomerData(
+      store.id,
+      String(payload.customer.id),
+      (payload.orders_requested ?? []).map(String)
+    );
+    console.log(
+      `[GDPR] Data request ${payload.data_request?.id ?? ''} for ${store.shop}: ` +
+        `customer ${data.customer ? 'found' : 'not found'}, ${data.orders.length} orders held; saved on the event.`
+    );
+    // The merchant fulfils the request from this record. customerId lets customers/redact find it.
+    return {
+      dataRequestId: payload.data_request ? String(payload.data_request.id) : null,
+      customerId: String(payload.customer.id),
+      // Round-trips Decimals and Dates to their JSON strings
+      ...(JSON.parse(JSON.stringify(data)) as Prisma.InputJsonObject),
+    };
+  },
+  'customers/redact': async (store, payload) => {
+    if (!store || !payload.customer) return;
+    const result = await redactCustomer(
+      store.id,
+      String(payload.customer.id),
+      (payload.orders_to_redact ?? []).map(String)
+    );
+    console.log(
+      `[GDPR] Redacted customer on ${store.shop}: ${result.ordersRedacted} orders detached, ` +
+        `${result.eventsDeleted} webhook events deleted.`
+    );
+  },
+  'shop/redact': async (store, payload) => {
+    const events = await redactShop(payload.shop_domain, store?.id ?? null);
+    console.log(`[GDPR] Shop data erased for ${payload.shop_domain} (${events} webhook events deleted).`);
+  },
+} satisfies Record<string, ComplianceHandler>;
+
+export type ComplianceTopic = keyof typeof complianceHandlers;
+
+export function isComplianceTopic(topic: string): topic is ComplianceTopic {
+  return Object.prototype.hasOwnProperty.call(complianceHandlers, topic);
+}
+
+export async function dispatchComplianceWebhook(topic: ComplianceTopic, store: WebhookStore | null, payload: unknown) {
+  return (await complianceHandlers[topic](store, payload as CompliancePayload)) ?? null;
+}
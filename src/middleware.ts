@@ -5,6 +5,8 @@ export default clerkMiddleware({
     '/',
     '/login',
     '/api/webhooks/(.*)',
+    '/api/internal/(.*)',
+    '/api/cron/(.*)',
     '/favicon.ico',
   ],
 });